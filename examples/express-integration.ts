@@ -1,5 +1,5 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { Aerostack } from '@aerostack/node';
+import { createClient } from '@aerostack/sdk-node';
 
 /**
  * Express Integration Example
@@ -10,9 +10,10 @@ import { Aerostack } from '@aerostack/node';
 const app = express();
 const port = 3000;
 
-// Initialize SDK
-const sdk = new Aerostack({
-    // security: { apiKeyAuth: process.env.AEROSTACK_API_KEY } // Optional for public endpoints
+// Initialize SDK in Result mode: operations return { ok, value, error } instead of throwing
+const sdk = createClient({
+    apiKey: process.env.AEROSTACK_API_KEY,
+    resultMode: true,
 });
 
 // Middleware to add SDK to request
@@ -29,16 +30,14 @@ app.post('/signup', async (req: Request, res: Response) => {
     const { email, password, name } = req.body;
 
     try {
-        const result = await sdk.authentication.authSignup({
-            email,
-            password,
-            name
+        const result = await sdk.auth.authSignup({
+            authSignupRequest: { email, password, name }
         });
 
         if (result.ok) {
             res.status(201).json(result.value);
         } else {
-            res.status(400).json({ error: result.error });
+            res.status(result.error.status ?? 400).json({ error: result.error.message, code: result.error.code });
         }
     } catch (error: any) {
         res.status(500).json({ error: error.message });
@@ -49,13 +48,13 @@ app.post('/signup', async (req: Request, res: Response) => {
 app.get('/users', async (req: Request, res: Response) => {
     try {
         const result = await sdk.database.dbQuery({
-            query: "SELECT * FROM users LIMIT 10"
+            dbQueryRequest: { sql: "SELECT * FROM users LIMIT 10" }
         });
 
         if (result.ok) {
             res.json(result.value);
         } else {
-            res.status(500).json({ error: result.error });
+            res.status(result.error.status ?? 500).json({ error: result.error.message, code: result.error.code });
         }
     } catch (error: any) {
         res.status(500).json({ error: error.message });
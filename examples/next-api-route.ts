@@ -1,4 +1,4 @@
-import { Aerostack } from '@aerostack/node';
+import { SDK } from '@aerostack/sdk-node';
 import type { NextApiRequest, NextApiResponse } from 'next';
 
 /**
@@ -8,8 +8,8 @@ import type { NextApiRequest, NextApiResponse } from 'next';
  * (Pages Router style, but concepts apply to App Router too)
  */
 
-const sdk = new Aerostack({
-    // security: { apiKeyAuth: process.env.AEROSTACK_API_KEY }
+const sdk = new SDK({
+    apiKey: process.env.AEROSTACK_API_KEY,
 });
 
 export default async function handler(
@@ -20,25 +20,24 @@ export default async function handler(
         // Handle Signup
         const { email, password } = req.body;
 
-        const result = await sdk.authentication.authSignup({
-            email,
-            password,
-            name: email.split('@')[0]
+        // sdk.safe returns { ok, value, error } instead of throwing
+        const result = await sdk.safe.auth.authSignup({
+            authSignupRequest: { email, password, name: email.split('@')[0] }
         });
 
         if (!result.ok) {
-            return res.status(400).json({ error: result.error });
+            return res.status(result.error.status ?? 400).json({ error: result.error.message, code: result.error.code });
         }
 
         return res.status(200).json(result.value);
     } else {
         // Handle GET - e.g. list some data
-        const result = await sdk.database.dbQuery({
-            query: "SELECT count(*) as count FROM users"
+        const result = await sdk.safe.database.dbQuery({
+            dbQueryRequest: { sql: "SELECT count(*) as count FROM users" }
         });
 
         if (!result.ok) {
-            return res.status(500).json({ error: result.error });
+            return res.status(result.error.status ?? 500).json({ error: result.error.message, code: result.error.code });
         }
 
         return res.status(200).json(result.value);
@@ -1,4 +1,4 @@
-import { Aerostack } from '@aerostack/node';
+import { createClient } from '@aerostack/sdk-node';
 
 /**
  * Standalone Auth Example
@@ -6,7 +6,7 @@ import { Aerostack } from '@aerostack/node';
  * Simple script to demonstrate authentication flow.
  */
 
-const sdk = new Aerostack();
+const sdk = createClient({ resultMode: true });
 
 async function main() {
     const email = `node-user-${Date.now()}@example.com`;
@@ -14,27 +14,24 @@ async function main() {
 
     console.log(`Attempting to register ${email}...`);
 
-    const signupRes = await sdk.authentication.authSignup({
-        email,
-        password,
-        name: "NodeJS User"
+    const signupRes = await sdk.auth.authSignup({
+        authSignupRequest: { email, password, name: "NodeJS User" }
     });
 
     if (!signupRes.ok) {
-        console.error("Signup failed:", signupRes.error);
+        console.error("Signup failed:", signupRes.error.code, signupRes.error.message);
         return;
     }
 
     console.log("Signup success:", signupRes.value);
 
     console.log("Attempting to login...");
-    const loginRes = await sdk.authentication.authSignin({
-        email,
-        password
+    const loginRes = await sdk.auth.authSignin({
+        authSigninRequest: { email, password }
     });
 
     if (!loginRes.ok) {
-        console.error("Login failed:", loginRes.error);
+        console.error("Login failed:", loginRes.error.code, loginRes.error.message);
         return;
     }
 
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { connect, type AddressInfo } from 'node:net';
+import { SDK } from '../sdk.js';
+import { createDispatcher } from '../agent.js';
+
+let api: Server;
+let apiUrl: string;
+let connections: number;
+
+function listen(server: Server): Promise<string> {
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  }));
+}
+
+function close(server: Server): Promise<void> {
+  server.closeAllConnections();
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+beforeEach(async () => {
+  connections = 0;
+  api = createServer((_req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ value: 'hit', exists: true }));
+  });
+  api.on('connection', () => { connections++; });
+  apiUrl = await listen(api);
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  await close(api);
+});
+
+/** CONNECT proxy that counts the tunnels it opens. */
+async function startProxy() {
+  const tunnels: string[] = [];
+  const proxy = createServer();
+  proxy.on('connect', (req, client) => {
+    tunnels.push(req.url!);
+    const [host, port] = req.url!.split(':');
+    const upstream = connect(Number(port), host, () => {
+      client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      upstream.pipe(client);
+      client.pipe(upstream);
+    });
+  });
+  return { proxy, tunnels, url: await listen(proxy) };
+}
+
+describe('agent', () => {
+  it('should reuse connections with keep-alive', async () => {
+    const sdk = new SDK({ serverUrl: `${apiUrl}/v1`, apiKey: 'key', agent: { keepAliveTimeoutMs: 10_000 } });
+    for (let i = 0; i < 3; i++) {
+      await sdk.cache.get('k');
+      // The socket goes back to the pool a tick after the body is read.
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    expect(connections).toBe(1);
+    await sdk.close();
+  });
+
+  it('should open a connection per request without keep-alive', async () => {
+    const sdk = new SDK({ serverUrl: `${apiUrl}/v1`, apiKey: 'key', agent: { keepAlive: false } });
+    for (let i = 0; i < 3; i++) await sdk.cache.get('k');
+    expect(connections).toBe(3);
+    await sdk.close();
+  });
+
+  it('should route through the proxy from HTTP_PROXY', async () => {
+    const { proxy, tunnels, url } = await startProxy();
+    vi.stubEnv('HTTP_PROXY', url);
+    vi.stubEnv('NO_PROXY', '');
+    const sdk = new SDK({ serverUrl: `${apiUrl}/v1`, apiKey: 'key' });
+
+    expect(await sdk.cache.get('k')).toBe('hit');
+    expect(tunnels).toEqual([new URL(apiUrl).host]);
+    await sdk.close();
+    await close(proxy);
+  });
+
+  it('should bypass the proxy for hosts in NO_PROXY', async () => {
+    const { proxy, tunnels, url } = await startProxy();
+    vi.stubEnv('HTTP_PROXY', url);
+    vi.stubEnv('NO_PROXY', '127.0.0.1');
+    const sdk = new SDK({ serverUrl: `${apiUrl}/v1`, apiKey: 'key' });
+
+    expect(await sdk.cache.get('k')).toBe('hit');
+    expect(tunnels).toEqual([]);
+    await sdk.close();
+    await close(proxy);
+  });
+
+  it('should send requests with undici\'s fetch rather than the global one', async () => {
+    const globalFetch = vi.fn();
+    vi.stubGlobal('fetch', globalFetch);
+    const sdk = new SDK({ serverUrl: `${apiUrl}/v1`, apiKey: 'key', agent: { keepAlive: true } });
+
+    expect(await sdk.cache.get('k')).toBe('hit');
+    expect(globalFetch).not.toHaveBeenCalled();
+    await sdk.close();
+  });
+
+  it('should use a caller-supplied dispatcher without closing it', async () => {
+    const dispatcher = await createDispatcher();
+    const closeSpy = vi.spyOn(dispatcher, 'close');
+    const sdk = new SDK({ serverUrl: `${apiUrl}/v1`, apiKey: 'key', dispatcher });
+
+    expect(await sdk.cache.get('k')).toBe('hit');
+    await sdk.close();
+    expect(closeSpy).not.toHaveBeenCalled();
+    await dispatcher.close();
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SDK } from '../sdk.js';
+import { CircuitBreaker } from '../breaker.js';
+import { CircuitOpenError, TimeoutError } from '../errors.js';
+import { json } from './helpers.js';
+
+const fail = () => Promise.reject(new TypeError('fetch failed'));
+const succeed = () => Promise.resolve('ok');
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: 0 });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('CircuitBreaker', () => {
+  it('should open once the failure rate crosses the threshold', async () => {
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker({ minimumCalls: 4, failureRateThreshold: 0.5, onStateChange });
+
+    await breaker.run('ai', succeed);
+    await breaker.run('ai', succeed);
+    await expect(breaker.run('ai', fail)).rejects.toThrow('fetch failed');
+    expect(breaker.state('ai')).toBe('closed');
+    await expect(breaker.run('ai', fail)).rejects.toThrow('fetch failed');
+    expect(breaker.state('ai')).toBe('open');
+    expect(onStateChange).toHaveBeenCalledWith({ service: 'ai', from: 'closed', to: 'open', failureRate: 0.5 });
+
+    const call = vi.fn(succeed);
+    const error = await breaker.run('ai', call).catch(e => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.details).toEqual({ service: 'ai', retryAfterMs: 30_000 });
+    expect(call).not.toHaveBeenCalled();
+    expect(breaker.state('cache')).toBe('closed');
+  });
+
+  it('should close after a successful trial call', async () => {
+    const breaker = new CircuitBreaker({ minimumCalls: 1, cooldownMs: 1000 });
+    const changes: string[] = [];
+    breaker.onStateChange(e => changes.push(e.to));
+    await expect(breaker.run('storage', fail)).rejects.toThrow();
+
+    vi.advanceTimersByTime(1000);
+    let finish!: (value: string) => void;
+    const trial = breaker.run('storage', () => new Promise<string>(resolve => { finish = resolve; }));
+    expect(breaker.state('storage')).toBe('half-open');
+    await expect(breaker.run('storage', succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+    finish('ok');
+    await trial;
+
+    expect(breaker.state('storage')).toBe('closed');
+    expect(changes).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should reopen when the trial call fails', async () => {
+    const breaker = new CircuitBreaker({ minimumCalls: 1, cooldownMs: 1000 });
+    await expect(breaker.run('ai', fail)).rejects.toThrow();
+    vi.advanceTimersByTime(1000);
+    await expect(breaker.run('ai', fail)).rejects.toThrow('fetch failed');
+
+    expect(breaker.state('ai')).toBe('open');
+    await expect(breaker.run('ai', succeed)).rejects.toMatchObject({ details: { retryAfterMs: 1000 } });
+  });
+
+  it('should count timeouts but not client errors or aborts', async () => {
+    const breaker = new CircuitBreaker({ minimumCalls: 1 });
+    const aborted = AbortSignal.abort();
+
+    await expect(breaker.run('db', () => Promise.reject(Object.assign(new Error('bad'), { status: 400 })))).rejects.toThrow();
+    await expect(breaker.run('db', () => Promise.reject(aborted.reason), undefined, aborted)).rejects.toThrow();
+    expect(breaker.state('db')).toBe('closed');
+    await expect(breaker.run('db', () => Promise.reject(new TimeoutError(10)))).rejects.toThrow();
+    expect(breaker.state('db')).toBe('open');
+  });
+
+  it('should apply per-service settings', async () => {
+    const breaker = new CircuitBreaker({ minimumCalls: 1, services: { cache: false, ai: { minimumCalls: 3 } } });
+    await expect(breaker.run('cache', fail)).rejects.toThrow();
+    await expect(breaker.run('ai', fail)).rejects.toThrow();
+    expect(breaker.state('cache')).toBe('closed');
+    expect(breaker.state('ai')).toBe('closed');
+  });
+});
+
+describe('SDK circuitBreaker', () => {
+  it('should fail fast once a service keeps returning 5xx', async () => {
+    const fetchApi = vi.fn(async (url: string) => url.includes('/ai/')
+      ? json({ code: 'INTERNAL_ERROR', message: 'down' }, 503)
+      : json({ value: 'v', exists: true }));
+    const sdk = new SDK({ apiKey: 'key', fetchApi, retry: false, circuitBreaker: { minimumCalls: 2 } });
+    const events = vi.fn();
+    sdk.onCircuitStateChange(events);
+
+    const search = () => sdk.ai.query({ queryRequest: { text: 'q' } });
+    await expect(search()).rejects.toMatchObject({ status: 503 });
+    await expect(search()).rejects.toMatchObject({ status: 503 });
+    await expect(search()).rejects.toBeInstanceOf(CircuitOpenError);
+
+    expect(fetchApi).toHaveBeenCalledTimes(2);
+    expect(sdk.circuitState('ai')).toBe('open');
+    expect(events).toHaveBeenCalledWith(expect.objectContaining({ service: 'ai', to: 'open' }));
+    expect(await sdk.cache.get('k')).toBe('v');
+  });
+});
@@ -0,0 +1,455 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SDK } from '../sdk.js';
+import { MemoryBackend } from '../memory.js';
+import { LocalCache } from '../cache.js';
+import { createLogger } from '../logger.js';
+import { CacheBulkError, ValidationError } from '../errors.js';
+import { z } from 'zod';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function createSdk(backend: 'memory' | MemoryBackend = 'memory') {
+  return new SDK({ backend, apiKey: 'sk_test', projectId: 'proj-1', retry: false });
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('cache.getOrSet', () => {
+  it('should load and cache on a miss, then serve hits', async () => {
+    const sdk = createSdk();
+    const loader = vi.fn(async () => ({ id: 1 }));
+
+    expect(await sdk.cache.getOrSet('user:1', loader, { ttl: 60 })).toEqual({ id: 1 });
+    expect(await sdk.cache.getOrSet('user:1', loader, { ttl: 60 })).toEqual({ id: 1 });
+
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(await sdk.cache.get('user:1')).toEqual({ id: 1 });
+  });
+
+  it('should share one load between concurrent misses', async () => {
+    const sdk = createSdk();
+    const gate = deferred<string>();
+    const loader = vi.fn(() => gate.promise);
+
+    const calls = [1, 2, 3].map(() => sdk.cache.getOrSet('hot', loader));
+    await vi.waitFor(() => expect(loader).toHaveBeenCalled());
+    gate.resolve('value');
+
+    expect(await Promise.all(calls)).toEqual(['value', 'value', 'value']);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache null results', async () => {
+    const sdk = createSdk();
+    const loader = vi.fn(async () => null);
+
+    expect(await sdk.cache.getOrSet('missing', loader)).toBeNull();
+    expect(await sdk.cache.getOrSet('missing', loader)).toBeNull();
+
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(await sdk.cache.exists('missing')).toBe(false);
+  });
+
+  it('should serve the stale value while refreshing in the background', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const sdk = createSdk();
+    let version = 0;
+    const loader = vi.fn(async () => ++version);
+    const options = { ttl: 60, staleWhileRevalidate: 300 };
+
+    expect(await sdk.cache.getOrSet('config', loader, options)).toBe(1);
+    vi.setSystemTime(Date.now() + 61_000);
+
+    expect(await sdk.cache.getOrSet('config', loader, options)).toBe(1);
+    await vi.waitFor(() => expect(loader).toHaveBeenCalledTimes(2));
+    await vi.waitFor(async () => expect(await sdk.cache.getOrSet('config', loader, options)).toBe(2));
+
+    vi.setSystemTime(Date.now() + 361_000);
+    expect(await sdk.cache.getOrSet('config', loader, options)).toBe(3);
+  });
+
+  it('should keep its bookkeeping keys out of listings', async () => {
+    const sdk = createSdk();
+    await sdk.cache.getOrSet('user:1', async () => 'alice', { ttl: 60, staleWhileRevalidate: 300, lock: true });
+    const scanned: string[] = [];
+    for await (const key of sdk.cache.scanKeys()) scanned.push(key);
+
+    expect(await sdk.cache.keys()).toEqual(['user:1']);
+    expect((await sdk.cache.list()).keys?.map(k => k.key)).toEqual(['user:1']);
+    expect(scanned).toEqual(['user:1']);
+    expect(await sdk.cache.namespace('user:').keys()).toEqual(['1']);
+  });
+
+  it('should report background refresh failures', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const sdk = createSdk();
+    const onError = vi.fn();
+    const options = { ttl: 60, staleWhileRevalidate: 300, onError };
+    await sdk.cache.getOrSet('config', async () => 1, options);
+    vi.setSystemTime(Date.now() + 61_000);
+
+    const failing = vi.fn(async () => { throw new Error('db down'); });
+    expect(await sdk.cache.getOrSet('config', failing, options)).toBe(1);
+
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'db down' })));
+  });
+
+  it('should let only the lock holder load across instances', async () => {
+    const backend = new MemoryBackend();
+    const a = createSdk(backend);
+    const b = createSdk(backend);
+    const gate = deferred<string>();
+    const loadA = vi.fn(() => gate.promise);
+    const loadB = vi.fn(async () => 'from-b');
+    const lock = { pollMs: 5 };
+
+    const first = a.cache.getOrSet('report', loadA, { ttl: 60, lock });
+    await vi.waitFor(() => expect(loadA).toHaveBeenCalled());
+    const second = b.cache.getOrSet('report', loadB, { ttl: 60, lock });
+    gate.resolve('from-a');
+
+    expect(await first).toBe('from-a');
+    expect(await second).toBe('from-a');
+    expect(loadB).not.toHaveBeenCalled();
+    expect(await a.cache.exists('__aerostack:lock:report')).toBe(false);
+  });
+
+  it('should load anyway once the lock wait runs out', async () => {
+    const sdk = createSdk();
+    await sdk.cache.increment('__aerostack:lock:slow', 1, 0, 10);
+    const loader = vi.fn(async () => 'mine');
+
+    expect(await sdk.cache.getOrSet('slow', loader, { lock: { waitMs: 20, pollMs: 5 } })).toBe('mine');
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('LocalCache', () => {
+  function createLocal(options = {}) {
+    return new LocalCache({ channel: false, ...options }, () => { throw new Error('unused'); }, createLogger());
+  }
+
+  it('should evict the least recently used entry beyond maxEntries', () => {
+    const local = createLocal({ maxEntries: 2 });
+    local.set('a', 1);
+    local.set('b', 2);
+    local.get('a');
+    local.set('c', 3);
+
+    expect(local.get('a')).toBe(1);
+    expect(local.get('b')).toBeUndefined();
+    expect(local.get('c')).toBe(3);
+  });
+
+  it('should stay within maxBytes and skip values larger than it', () => {
+    const local = createLocal({ maxBytes: 30 });
+    local.set('a', 'x'.repeat(10));
+    local.set('b', 'y'.repeat(10));
+    local.set('c', 'z'.repeat(10));
+    local.set('huge', 'w'.repeat(100));
+
+    expect(local.size).toBe(2);
+    expect(local.get('a')).toBeUndefined();
+    expect(local.get('huge')).toBeUndefined();
+  });
+
+  it('should cap entry lifetime at the remote ttl', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const local = createLocal({ ttl: 60 });
+    local.set('short', 1, 5);
+    local.set('long', 2, 600);
+
+    vi.setSystemTime(Date.now() + 6_000);
+    expect(local.get('short')).toBeUndefined();
+    expect(local.get('long')).toBe(2);
+    vi.setSystemTime(Date.now() + 60_000);
+    expect(local.get('long')).toBeUndefined();
+  });
+
+  it('should return a copy on every hit', () => {
+    const local = createLocal();
+    local.set('obj', { n: 1 });
+    (local.get('obj') as { n: number }).n = 2;
+
+    expect(local.get('obj')).toEqual({ n: 1 });
+  });
+
+  it('should serve repeated reads without a round trip', async () => {
+    const backend = new MemoryBackend();
+    const fetchApi = vi.fn(backend.fetch);
+    const sdk = new SDK({ fetchApi, apiKey: 'sk_test', projectId: 'proj-1', retry: false, localCache: { channel: false } });
+    await sdk.cache.set('config', { flag: true });
+    fetchApi.mockClear();
+
+    expect(await sdk.cache.get('config')).toEqual({ flag: true });
+    expect(await sdk.cache.exists('config')).toBe(true);
+    expect(await sdk.cache.getMany(['config', 'other'])).toEqual([
+      { key: 'config', value: { flag: true }, _exists: true },
+      expect.objectContaining({ key: 'other', _exists: false }),
+    ]);
+    expect(fetchApi).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refresh getOrSet values once their ttl passes, even within the local ttl', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const sdk = new SDK({ backend: new MemoryBackend(), apiKey: 'sk_test', projectId: 'proj-1', retry: false, localCache: { channel: false, ttl: 60 } });
+    let version = 0;
+    const loader = vi.fn(async () => ++version);
+    const options = { ttl: 1, staleWhileRevalidate: 60 };
+
+    expect(await sdk.cache.getOrSet('config', loader, options)).toBe(1);
+    expect(sdk.localCache?.size).toBe(1);
+    vi.setSystemTime(Date.now() + 1_500);
+
+    expect(await sdk.cache.getOrSet('config', loader, options)).toBe(1);
+    await vi.waitFor(() => expect(loader).toHaveBeenCalledTimes(2));
+    await vi.waitFor(async () => expect(await sdk.cache.getOrSet('config', loader, options)).toBe(2));
+  });
+
+  it('should go to the server when response metadata is requested', async () => {
+    const backend = new MemoryBackend();
+    const fetchApi = vi.fn(backend.fetch);
+    const sdk = new SDK({ fetchApi, apiKey: 'sk_test', projectId: 'proj-1', retry: false, localCache: { channel: false } });
+    await sdk.cache.set('config', { flag: true });
+    fetchApi.mockClear();
+
+    const single = await sdk.withResponse().cache.get('config');
+    const many = await sdk.withResponse().cache.getMany(['config']);
+    const none = await sdk.withResponse().cache.getMany([]);
+
+    expect(single).toMatchObject({ data: { flag: true }, status: 200 });
+    expect(many).toMatchObject({ data: [{ key: 'config', value: { flag: true } }], status: 200 });
+    expect(none).toMatchObject({ data: [], status: 200 });
+    expect(fetchApi).toHaveBeenCalledTimes(3);
+    expect(await sdk.cache.get('config')).toEqual({ flag: true });
+    expect(fetchApi).toHaveBeenCalledTimes(3);
+  });
+
+  it('should evict keys on other instances when one writes', async () => {
+    const backend = new MemoryBackend();
+    const a = new SDK({ backend, apiKey: 'sk_test', projectId: 'proj-1', retry: false, localCache: true });
+    const b = new SDK({ backend, apiKey: 'sk_test', projectId: 'proj-1', retry: false, localCache: true });
+    await a.cache.set('flag', 'old');
+    await b.cache.get('flag');
+    await vi.waitFor(() => expect(a.realtime.connected && b.realtime.connected).toBe(true));
+    expect(await b.cache.get('flag')).toBe('old');
+    expect(b.localCache?.size).toBe(1);
+
+    await a.cache.set('flag', 'new');
+    await vi.waitFor(() => expect(b.localCache?.size).toBe(0));
+    expect(await b.cache.get('flag')).toBe('new');
+
+    await a.cache.flush();
+    await vi.waitFor(() => expect(b.localCache?.size).toBe(0));
+    expect(await b.cache.get('flag')).toBeNull();
+    a.dispose();
+    b.dispose();
+  });
+});
+
+describe('cache.namespace', () => {
+  const SessionSchema = z.object({ userId: z.string(), roles: z.array(z.string()).default([]) });
+
+  it('should scope keys to the prefix and strip it from keys()', async () => {
+    const sdk = createSdk();
+    const sessions = sdk.cache.namespace('sessions:', { schema: SessionSchema });
+    await sessions.set('a', { userId: 'u1', roles: [] });
+    await sessions.setMany([{ key: 'b', value: { userId: 'u2', roles: ['admin'] } }]);
+    await sdk.cache.set('other', 1);
+
+    expect(await sdk.cache.get('sessions:a')).toEqual({ userId: 'u1', roles: [] });
+    expect((await sessions.keys()).sort()).toEqual(['a', 'b']);
+    expect(await sessions.getMany(['b', 'missing', 'a'])).toEqual([
+      { key: 'b', value: { userId: 'u2', roles: ['admin'] }, _exists: true },
+      { key: 'missing', value: null, _exists: false },
+      { key: 'a', value: { userId: 'u1', roles: [] }, _exists: true },
+    ]);
+
+    await sessions.flush();
+    expect(await sdk.cache.keys()).toEqual(['other']);
+  });
+
+  it('should apply defaultTtl when no ttl is given', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const sdk = createSdk();
+    const tokens = sdk.cache.namespace<string>('tokens:', { defaultTtl: 60 });
+    await tokens.set('short', 'x');
+    await tokens.set('long', 'y', 600);
+
+    vi.setSystemTime(Date.now() + 61_000);
+    expect(await tokens.get('short')).toBeNull();
+    expect(await tokens.get('long')).toBe('y');
+  });
+
+  it('should validate values on write and on read', async () => {
+    const sdk = createSdk();
+    const sessions = sdk.cache.namespace('sessions:', { schema: SessionSchema });
+
+    await expect(sessions.set('bad', { userId: 42 } as any)).rejects.toMatchObject({
+      code: 'CACHE_SCHEMA_MISMATCH',
+      details: { key: 'sessions:bad', direction: 'write' },
+    });
+    expect(await sdk.cache.exists('sessions:bad')).toBe(false);
+
+    await sdk.cache.set('sessions:legacy', { user: 'u1' });
+    await expect(sessions.get('legacy')).rejects.toThrow(ValidationError);
+
+    await sdk.cache.set('sessions:old', { userId: 'u1' });
+    expect(await sessions.get('old')).toEqual({ userId: 'u1', roles: [] });
+  });
+});
+
+describe('cache bulk chunking', () => {
+  it('should split getMany and keep input order', async () => {
+    const backend = new MemoryBackend();
+    const fetchApi = vi.fn(backend.fetch);
+    const sdk = new SDK({ fetchApi, apiKey: 'sk_test', projectId: 'proj-1', retry: false });
+    const entries = Array.from({ length: 250 }, (_, i) => ({ key: `k${i}`, value: i }));
+    expect(await sdk.cache.setMany(entries)).toEqual({ success: true, count: 250 });
+    expect(fetchApi).toHaveBeenCalledTimes(3);
+
+    const keys = [...entries.map(e => e.key).reverse(), 'missing'];
+    const results = await sdk.cache.getMany(keys, { concurrency: 2 });
+
+    expect(results.map(r => r.key)).toEqual(keys);
+    expect(results[0]).toEqual({ key: 'k249', value: 249, _exists: true });
+    expect(results[250]).toMatchObject({ key: 'missing', _exists: false });
+    expect(fetchApi).toHaveBeenCalledTimes(6);
+  });
+
+  it('should delete in chunks of 500', async () => {
+    const backend = new MemoryBackend();
+    const fetchApi = vi.fn(backend.fetch);
+    const sdk = new SDK({ fetchApi, apiKey: 'sk_test', projectId: 'proj-1', retry: false });
+    await sdk.cache.setMany(Array.from({ length: 600 }, (_, i) => ({ key: `k${i}`, value: i })));
+    fetchApi.mockClear();
+
+    const result = await sdk.cache.deleteMany(Array.from({ length: 1200 }, (_, i) => `k${i}`));
+
+    expect(result).toMatchObject({ success: true, deleted: 600 });
+    expect(fetchApi).toHaveBeenCalledTimes(3);
+  });
+
+  it('should bound the number of chunks in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const backend = new MemoryBackend();
+    const sdk = new SDK({
+      apiKey: 'sk_test', projectId: 'proj-1', retry: false,
+      fetchApi: async (url: string, init?: RequestInit) => {
+        peak = Math.max(peak, ++inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return backend.fetch(url, init);
+      },
+    });
+
+    await sdk.cache.getMany(Array.from({ length: 1000 }, (_, i) => `k${i}`), { concurrency: 3 });
+
+    expect(peak).toBe(3);
+  });
+
+  it('should report failed chunks with their keys and the partial result', async () => {
+    const backend = new MemoryBackend();
+    let calls = 0;
+    const sdk = new SDK({
+      apiKey: 'sk_test', projectId: 'proj-1', retry: false,
+      fetchApi: (url: string, init?: RequestInit) => {
+        if (url.includes('setMany') && ++calls === 2) {
+          return Promise.resolve(new Response(JSON.stringify({ code: 'INTERNAL_ERROR', message: 'boom' }), { status: 500 }));
+        }
+        return backend.fetch(url, init);
+      },
+    });
+    const entries = Array.from({ length: 250 }, (_, i) => ({ key: `k${i}`, value: i }));
+
+    const error = await sdk.cache.setMany(entries, { concurrency: 1 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(CacheBulkError);
+    expect(error.code).toBe('CACHE_BULK_PARTIAL_FAILURE');
+    expect(error.details.failedKeys).toEqual(entries.slice(100, 200).map(e => e.key));
+    expect(error.details.failures).toHaveLength(1);
+    expect(error.details.partial).toEqual({ success: true, count: 150 });
+    expect(await sdk.cache.exists('k99')).toBe(true);
+    expect(await sdk.cache.exists('k100')).toBe(false);
+  });
+});
+
+describe('cache.scan', () => {
+  function countingSdk() {
+    const backend = new MemoryBackend();
+    const fetchApi = vi.fn(backend.fetch);
+    const sdk = new SDK({ fetchApi, apiKey: 'sk_test', projectId: 'proj-1', retry: false });
+    const callsTo = (operation: string) => fetchApi.mock.calls.filter(([url]) => String(url).endsWith(`/${operation}`)).length;
+    return { sdk, fetchApi, callsTo };
+  }
+
+  it('should follow cursors across pages', async () => {
+    const { sdk, callsTo } = countingSdk();
+    await sdk.cache.setMany(Array.from({ length: 25 }, (_, i) => ({ key: `user:${String(i).padStart(2, '0')}`, value: i })));
+    await sdk.cache.set('other', 1);
+
+    const keys: string[] = [];
+    for await (const key of sdk.cache.scanKeys({ prefix: 'user:', pageSize: 10 })) keys.push(key);
+
+    expect(keys).toHaveLength(25);
+    expect(keys[24]).toBe('user:24');
+    expect(callsTo('list')).toBe(3);
+  });
+
+  it('should list 100 keys per page by default', async () => {
+    const { sdk, fetchApi } = countingSdk();
+    for await (const key of sdk.cache.scanKeys()) void key;
+
+    const [, init] = fetchApi.mock.calls.find(([url]) => String(url).endsWith('/list'))!;
+    expect(JSON.parse(init!.body as string).limit).toBe(100);
+  });
+
+  it('should fetch pages lazily and include values on request', async () => {
+    const { sdk, callsTo } = countingSdk();
+    await sdk.cache.setMany(Array.from({ length: 30 }, (_, i) => ({ key: `k${String(i).padStart(2, '0')}`, value: { i }, ttl: 60 })));
+
+    const seen = [];
+    for await (const entry of sdk.cache.scan({ pageSize: 10, withValues: true })) {
+      seen.push(entry);
+      if (seen.length === 5) break;
+    }
+
+    expect(seen[0]).toEqual({ key: 'k00', value: { i: 0 }, expiration: expect.any(Number) });
+    expect(callsTo('list')).toBe(1);
+    expect(callsTo('getMany')).toBe(1);
+  });
+
+  it('should flush every matching key in deleteMany batches', async () => {
+    const { sdk, fetchApi, callsTo } = countingSdk();
+    await sdk.cache.setMany(Array.from({ length: 1200 }, (_, i) => ({ key: `tmp:${i}`, value: i })));
+    await sdk.cache.set('keep', 1);
+    fetchApi.mockClear();
+
+    expect(await sdk.cache.flushAll('tmp:')).toEqual({ success: true, deleted: 1200 });
+
+    expect(callsTo('deleteMany')).toBe(3);
+    expect(await sdk.cache.keys()).toEqual(['keep']);
+  });
+
+  it('should flush getOrSet bookkeeping keys with their values', async () => {
+    const { sdk } = countingSdk();
+    const options = { ttl: 60, staleWhileRevalidate: 300 };
+    await sdk.cache.getOrSet('u:1', async () => 'alice', options);
+    await sdk.cache.getOrSet('other', async () => 'bob', options);
+
+    await sdk.cache.flushAll('u:');
+    expect(await sdk.cache.exists('__aerostack:fresh:u:1')).toBe(false);
+    expect(await sdk.cache.exists('__aerostack:fresh:other')).toBe(true);
+
+    await sdk.cache.flushAll();
+    expect(await sdk.cache.exists('__aerostack:fresh:other')).toBe(false);
+    expect(await sdk.cache.exists('other')).toBe(false);
+  });
+});
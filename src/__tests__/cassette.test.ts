@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SDK } from '../sdk.js';
+import { Cassette } from '../cassette.js';
+import { CassetteMismatchError } from '../errors.js';
+import { json } from './helpers.js';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'aerostack-cassette-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function sse(frames: string[]) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    start(controller) {
+      for (const frame of frames) controller.enqueue(encoder.encode(frame));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const server = vi.fn(async (url: string, init: RequestInit) => {
+  if (url.endsWith('/cache/get')) return json({ value: JSON.parse(init.body as string).key.toUpperCase(), exists: true });
+  if (url.endsWith('/auth/signin')) return json({ token: 'jwt_secret', user: { id: 'u1', email: 'a@b.c' } });
+  return sse([
+    'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+    'data: {"choices":[{"delta":{"content":"lo"}}],"usage":{"total_tokens":7}}\n\n',
+    'data: [DONE]\n\n',
+  ]);
+});
+
+async function record(path: string) {
+  const cassette = await Cassette.open({ path, mode: 'record', fetchApi: server });
+  const sdk = new SDK({ apiKey: 'sk_live_secret', fetchApi: cassette.fetch, retry: false });
+  await sdk.cache.get('greeting');
+  await sdk.auth.authSignin({ authSigninRequest: { email: 'a@b.c', password: 'hunter2' } });
+  await sdk.streamGateway({ apiSlug: 'bot', messages: [{ role: 'user', content: 'hi' }], consumerKey: 'ask_live_consumer' });
+  await cassette.save();
+}
+
+describe('Cassette', () => {
+  it('should record interactions with secrets scrubbed', async () => {
+    const path = join(dir, 'nested', 'session.json');
+    await record(path);
+
+    const file = await readFile(path, 'utf8');
+    expect(file).not.toContain('sk_live_secret');
+    expect(file).not.toContain('hunter2');
+    expect(file).not.toContain('jwt_secret');
+    expect(file).not.toContain('ask_live_consumer');
+
+    const { interactions } = JSON.parse(file);
+    expect(interactions).toHaveLength(3);
+    expect(interactions[0].request.headers['x-aerostack-key']).toBe('[SCRUBBED]');
+    expect(interactions[2].response.body).toContain('"content":"lo"');
+  });
+
+  it('should replay recorded responses, including SSE streams', async () => {
+    const path = join(dir, 'session.json');
+    await record(path);
+    server.mockClear();
+
+    const cassette = await Cassette.open({ path, mode: 'replay' });
+    const sdk = new SDK({ apiKey: 'sk_other', fetchApi: cassette.fetch, serverUrl: 'https://ci.example.com/v1' });
+
+    expect(await sdk.cache.get('greeting')).toBe('GREETING');
+    const auth = await sdk.auth.authSignin({ authSigninRequest: { email: 'a@b.c', password: 'different' } });
+    expect(auth.user?.id).toBe('u1');
+    const tokens: string[] = [];
+    const result = await sdk.streamGateway({ apiSlug: 'bot', messages: [{ role: 'user', content: 'hi' }], onToken: t => tokens.push(t) });
+
+    expect(result).toEqual({ text: 'Hello', tokensUsed: 7 });
+    expect(tokens).toEqual(['Hel', 'lo']);
+    expect(server).not.toHaveBeenCalled();
+    expect(cassette.unused).toHaveLength(0);
+  });
+
+  it('should fail loudly on an unmatched request', async () => {
+    const path = join(dir, 'session.json');
+    await record(path);
+
+    const cassette = await Cassette.open({ path, mode: 'replay' });
+    const sdk = new SDK({ apiKey: 'sk_test', fetchApi: cassette.fetch });
+
+    const error = await sdk.cache.get('other').catch(e => e);
+    expect(error).toBeInstanceOf(CassetteMismatchError);
+    expect(error.message).toContain('POST https://api.aerostack.dev/v1/cache/get');
+    expect(error.details.unused).toContain('POST https://api.aerostack.dev/v1/cache/get');
+  });
+
+  it('should apply configured matchers', async () => {
+    const path = join(dir, 'session.json');
+    await record(path);
+
+    const cassette = await Cassette.open({ path, mode: 'replay', match: { body: false, headers: ['content-type'] } });
+    const sdk = new SDK({ apiKey: 'sk_test', fetchApi: cassette.fetch });
+
+    expect(await sdk.cache.get('other')).toBe('GREETING');
+  });
+});
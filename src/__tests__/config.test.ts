@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SDK } from '../sdk.js';
+import { loadConfig, parseProfiles } from '../config.js';
+import { ConfigurationError } from '../errors.js';
+
+let dir: string;
+let configFile: string;
+
+const PROFILES = `
+# Aerostack profiles
+[default]
+api_key = sk_default
+project_id = proj_default
+
+[profile staging]
+api_key = "sk_staging"
+server_url = https://staging.api.test/v1
+project_id = proj_staging
+`;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'aerostack-config-'));
+  configFile = join(dir, 'config');
+  await writeFile(configFile, PROFILES);
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('parseProfiles', () => {
+  it('should read sections, quotes and comments', () => {
+    expect(parseProfiles(PROFILES)).toEqual({
+      default: { apiKey: 'sk_default', projectId: 'proj_default' },
+      staging: { apiKey: 'sk_staging', serverUrl: 'https://staging.api.test/v1', projectId: 'proj_staging' },
+    });
+  });
+});
+
+describe('loadConfig', () => {
+  it('should use the default profile', () => {
+    expect(loadConfig({ configFile, env: {} })).toEqual({ apiKey: 'sk_default', serverUrl: undefined, projectId: 'proj_default' });
+  });
+
+  it('should select a profile from AEROSTACK_PROFILE', () => {
+    expect(loadConfig({ configFile, env: { AEROSTACK_PROFILE: 'staging' } })).toMatchObject({ projectId: 'proj_staging' });
+  });
+
+  it('should let environment variables and overrides win over the profile', () => {
+    const env = { AEROSTACK_API_KEY: 'sk_env', AEROSTACK_PROJECT_ID: 'proj_env', AEROSTACK_SERVER_URL: 'https://env.api.test/v1' };
+    expect(loadConfig({ configFile, env, profile: 'staging' }, { projectId: 'proj_explicit' })).toEqual({
+      apiKey: 'sk_env',
+      serverUrl: 'https://env.api.test/v1',
+      projectId: 'proj_explicit',
+    });
+  });
+
+  it('should fail up front without a project id', () => {
+    let error: ConfigurationError | undefined;
+    try {
+      loadConfig({ configFile: join(dir, 'missing'), env: { AEROSTACK_API_KEY: 'sk' } });
+    } catch (e) {
+      error = e as ConfigurationError;
+    }
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect(error!.message).toContain('projectId');
+    expect(error!.message).toContain('AEROSTACK_PROJECT_ID');
+    expect(error!.details?.['issues']).toEqual([expect.objectContaining({ path: 'projectId' })]);
+  });
+
+  it('should reject malformed values and a missing key', () => {
+    expect(() => loadConfig({ configFile: join(dir, 'missing'), env: { AEROSTACK_PROJECT_ID: 'p', AEROSTACK_SERVER_URL: 'not a url' } }))
+      .toThrow(/apiKey: Required.*serverUrl/);
+  });
+
+  it('should accept credentials instead of a key', () => {
+    expect(() => loadConfig({ configFile: join(dir, 'missing'), env: { AEROSTACK_PROJECT_ID: 'p' } }, { credentials: { env: 'KEY' } }))
+      .not.toThrow();
+  });
+
+  it('should fail for an unknown or unreadable profile that was asked for', () => {
+    expect(() => loadConfig({ configFile, env: {}, profile: 'prod' })).toThrow('profile "prod" not found');
+    expect(() => loadConfig({ configFile: join(dir, 'missing'), env: {}, profile: 'prod' })).toThrow(ConfigurationError);
+  });
+});
+
+describe('SDK.fromEnv', () => {
+  it('should build a client from the merged settings', async () => {
+    const fetchApi = vi.fn(async () => new Response('{"value":"v","exists":true}', { headers: { 'Content-Type': 'application/json' } }));
+    const sdk = SDK.fromEnv({ configFile, env: { AEROSTACK_PROFILE: 'staging' }, fetchApi });
+
+    await sdk.cache.get('k');
+    const [url, init] = fetchApi.mock.calls[0]! as unknown as [string, RequestInit];
+    expect(url).toBe('https://staging.api.test/v1/cache/get');
+    expect(new Headers(init.headers).get('X-Aerostack-Key')).toBe('sk_staging');
+    expect(() => sdk.realtime.channel('orders')).not.toThrow();
+    await sdk.close();
+  });
+
+  it('should throw before building a client', () => {
+    expect(() => SDK.fromEnv({ configFile: join(dir, 'missing'), env: { AEROSTACK_API_KEY: 'sk' } })).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CacheApi, Configuration } from '../_generated/index.js';
+import { Credentials, withCredentials } from '../credentials.js';
+import { AuthInvalidCredentialsError, AuthInvalidKeyError, errorMiddleware } from '../errors.js';
+import { resolveRetryPolicy, withRetry } from '../retry.js';
+import { json } from './helpers.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('Credentials', () => {
+  it('should hold a static key', async () => {
+    const credentials = new Credentials('sk_static');
+    expect(credentials.refreshable).toBe(false);
+    await expect(credentials.get()).resolves.toBe('sk_static');
+  });
+
+  it('should read an environment variable', async () => {
+    vi.stubEnv('MY_AEROSTACK_KEY', 'sk_env');
+    const credentials = new Credentials({ env: 'MY_AEROSTACK_KEY' });
+    expect(credentials.current).toBe('sk_env');
+
+    vi.stubEnv('MY_AEROSTACK_KEY', 'sk_env_rotated');
+    await expect(credentials.refresh('sk_env')).resolves.toBe('sk_env_rotated');
+  });
+
+  it('should fail up front when the environment variable is missing', () => {
+    expect(() => new Credentials({ env: 'AEROSTACK_MISSING_KEY' })).toThrow(AuthInvalidKeyError);
+  });
+
+  it('should call a provider once for concurrent callers', async () => {
+    const provider = vi.fn().mockResolvedValue('sk_provided');
+    const credentials = new Credentials(provider);
+    const keys = await Promise.all([credentials.get(), credentials.get(), credentials.get()]);
+    expect(keys).toEqual(['sk_provided', 'sk_provided', 'sk_provided']);
+    expect(provider).toHaveBeenCalledOnce();
+  });
+
+  it('should refresh before the key expires', async () => {
+    vi.useFakeTimers();
+    const provider = vi.fn()
+      .mockResolvedValueOnce({ apiKey: 'sk_1', expiresAt: Date.now() + 120_000 })
+      .mockResolvedValueOnce({ apiKey: 'sk_2', expiresAt: Date.now() + 240_000 });
+    const credentials = new Credentials(provider);
+    const rotated = vi.fn();
+    credentials.onRotate(rotated);
+
+    await credentials.get();
+    await vi.advanceTimersByTimeAsync(90_000);
+
+    expect(provider).toHaveBeenCalledTimes(2);
+    expect(rotated).toHaveBeenLastCalledWith('sk_2');
+    credentials.dispose();
+  });
+
+  it('should not refresh again for a key another caller already replaced', async () => {
+    const provider = vi.fn().mockResolvedValueOnce('sk_1').mockResolvedValueOnce('sk_2');
+    const credentials = new Credentials(provider);
+    await credentials.get();
+    await credentials.refresh('sk_1');
+    await expect(credentials.refresh('sk_1')).resolves.toBe('sk_2');
+    expect(provider).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop the provider on set', async () => {
+    const provider = vi.fn().mockResolvedValue('sk_provided');
+    const credentials = new Credentials(provider);
+    const rotated = vi.fn();
+    credentials.onRotate(rotated);
+    credentials.set('sk_manual');
+
+    await expect(credentials.get()).resolves.toBe('sk_manual');
+    expect(credentials.refreshable).toBe(false);
+    expect(provider).not.toHaveBeenCalled();
+    expect(rotated).toHaveBeenCalledWith('sk_manual');
+  });
+});
+
+describe('withCredentials', () => {
+  it('should send the current key with each request', async () => {
+    const fetchApi = vi.fn().mockImplementation(async () => json({ value: 1, exists: true }));
+    const credentials = new Credentials('sk_1');
+    const cache = new CacheApi(new Configuration({ basePath: 'https://api.test.com/v1', fetchApi: withCredentials(fetchApi, credentials) }));
+
+    await cache.cacheGet({ cacheGetRequest: { key: 'k' } });
+    credentials.set('sk_2');
+    await cache.cacheGet({ cacheGetRequest: { key: 'k' } });
+
+    expect(fetchApi.mock.calls[0]![1].headers['X-Aerostack-Key']).toBe('sk_1');
+    expect(fetchApi.mock.calls[1]![1].headers['X-Aerostack-Key']).toBe('sk_2');
+  });
+
+  it('should refresh and replay once on 401', async () => {
+    const fetchApi = vi.fn()
+      .mockResolvedValueOnce(json({ code: 'AUTH_INVALID_KEY', message: 'expired' }, 401))
+      .mockResolvedValueOnce(json({ success: true }));
+    const provider = vi.fn().mockResolvedValueOnce('sk_old').mockResolvedValueOnce('sk_new');
+    const wrapped = withCredentials(fetchApi, new Credentials(provider));
+
+    const response = await wrapped('https://api.test.com/v1/cache/set', { method: 'POST', body: '{}', headers: {} });
+
+    expect(response.status).toBe(200);
+    expect(fetchApi).toHaveBeenCalledTimes(2);
+    expect(fetchApi.mock.calls[1]![1].headers['X-Aerostack-Key']).toBe('sk_new');
+  });
+
+  it('should surface provider failures as AuthInvalidCredentialsError without retrying', async () => {
+    const fetchApi = vi.fn();
+    const provider = vi.fn().mockRejectedValue(new TypeError('vault unreachable'));
+    const cache = new CacheApi(new Configuration({
+      basePath: 'https://api.test.com/v1',
+      fetchApi: withRetry(withCredentials(fetchApi, new Credentials(provider)), resolveRetryPolicy({ initialDelayMs: 10, jitter: 0 })),
+      middleware: [errorMiddleware],
+    }));
+
+    const error = await cache.cacheGet({ cacheGetRequest: { key: 'k' } }).catch(e => e);
+
+    expect(error).toBeInstanceOf(AuthInvalidCredentialsError);
+    expect(error.code).toBe('AUTH_INVALID_CREDENTIALS');
+    expect(error.cause.message).toBe('vault unreachable');
+    expect(provider).toHaveBeenCalledOnce();
+    expect(fetchApi).not.toHaveBeenCalled();
+  });
+
+  it('should return the 401 for static keys', async () => {
+    const fetchApi = vi.fn().mockResolvedValue(json({ code: 'AUTH_INVALID_KEY', message: 'bad key' }, 401));
+    const response = await withCredentials(fetchApi, new Credentials('sk_bad'))('https://api.test.com/v1/cache/get', {});
+    expect(response.status).toBe(401);
+    expect(fetchApi).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CacheApi, Configuration } from '../_generated/index.js';
+import {
+  AerostackError,
+  AuthInvalidKeyError,
+  DbQueryFailedError,
+  ForbiddenError,
+  RateLimitExceededError,
+  ValidationError,
+  createAerostackError,
+  errorMiddleware,
+  parseErrorResponse,
+} from '../errors.js';
+import { json } from './helpers.js';
+
+describe('createAerostackError', () => {
+  it('should pick the subclass from the error code', () => {
+    expect(createAerostackError({ code: 'AUTH_INVALID_KEY', message: 'bad key' })).toBeInstanceOf(AuthInvalidKeyError);
+    expect(createAerostackError({ code: 'RATE_LIMIT_EXCEEDED', message: 'slow down' })).toBeInstanceOf(RateLimitExceededError);
+    expect(createAerostackError({ code: 'VALIDATION_ERROR', message: 'bad input' })).toBeInstanceOf(ValidationError);
+    expect(createAerostackError({ code: 'DB_QUERY_FAILED', message: 'syntax' })).toBeInstanceOf(DbQueryFailedError);
+    expect(createAerostackError({ code: 'FORBIDDEN', message: 'no' })).toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should fall back to the HTTP status when no code is present', () => {
+    const err = createAerostackError({}, { status: 429 });
+    expect(err).toBeInstanceOf(RateLimitExceededError);
+    expect(err.code).toBe('RATE_LIMIT_EXCEEDED');
+    expect(err.message).toBe('HTTP 429');
+  });
+
+  it('should use the base class for unknown codes', () => {
+    const err = createAerostackError({ code: 'SOMETHING_NEW' as any, message: 'new' }, { status: 409 });
+    expect(err.constructor).toBe(AerostackError);
+    expect(err.code).toBe('SOMETHING_NEW');
+  });
+});
+
+describe('parseErrorResponse', () => {
+  it('should carry status, request id and details', async () => {
+    const err = await parseErrorResponse(json(
+      { code: 'VALIDATION_ERROR', message: 'key is required', details: { field: 'key' } },
+      400,
+      { 'X-Request-ID': 'req-123' },
+    ));
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err.message).toBe('key is required');
+    expect(err.status).toBe(400);
+    expect(err.requestId).toBe('req-123');
+    expect(err.details).toEqual({ field: 'key' });
+  });
+
+  it('should accept { error: string } bodies', async () => {
+    const err = await parseErrorResponse(json({ error: 'Server error' }, 500));
+    expect(err.message).toBe('Server error');
+    expect(err.code).toBe('INTERNAL_ERROR');
+  });
+
+  it('should accept nested { error: ErrorResponse } bodies', async () => {
+    const err = await parseErrorResponse(json({ error: { code: 'FORBIDDEN', message: 'denied' } }, 403));
+    expect(err).toBeInstanceOf(ForbiddenError);
+    expect(err.message).toBe('denied');
+  });
+
+  it('should tolerate non-JSON bodies', async () => {
+    const err = await parseErrorResponse(new Response('<html>bad gateway</html>', { status: 502 }));
+    expect(err.message).toBe('HTTP 502');
+    expect(err.status).toBe(502);
+  });
+});
+
+describe('errorMiddleware', () => {
+  it('should surface typed errors from generated APIs', async () => {
+    const fetchApi = vi.fn().mockResolvedValue(json({ code: 'AUTH_INVALID_KEY', message: 'Invalid API key' }, 401));
+    const api = new CacheApi(new Configuration({ fetchApi, middleware: [errorMiddleware] }));
+
+    const err = await api.cacheGet({ cacheGetRequest: { key: 'k' } }).catch(e => e);
+    expect(err).toBeInstanceOf(AuthInvalidKeyError);
+    expect(err.status).toBe(401);
+    expect(err.response).toBeDefined();
+  });
+
+  it('should leave successful responses alone', async () => {
+    const fetchApi = vi.fn().mockResolvedValue(json({ exists: true, value: 'v' }));
+    const api = new CacheApi(new Configuration({ fetchApi, middleware: [errorMiddleware] }));
+
+    const res = await api.cacheGet({ cacheGetRequest: { key: 'k' } });
+    expect(res.value).toBe('v');
+  });
+});
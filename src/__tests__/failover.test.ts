@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SDK } from '../sdk.js';
+import { Endpoints } from '../failover.js';
+import { NodeRealtimeClient } from '../realtime.js';
+import { createLogger } from '../logger.js';
+import { json } from './helpers.js';
+
+const EU = 'https://eu.api.test/v1';
+const US = 'https://us.api.test/v1';
+
+function until(condition: () => boolean): Promise<void> {
+  return vi.waitFor(() => { if (!condition()) throw new Error('not yet'); }, { timeout: 1000, interval: 5 });
+}
+
+const logger = createLogger({ debug() {}, info() {}, warn() {}, error() {} });
+
+describe('Endpoints', () => {
+  it('should prefer the first healthy endpoint', () => {
+    const endpoints = new Endpoints([EU, US], {}, vi.fn(), logger);
+    const changes: string[] = [];
+    endpoints.onChange(url => changes.push(url));
+
+    expect(endpoints.current).toBe(EU);
+    endpoints.fail(EU);
+    expect(endpoints.current).toBe(US);
+    endpoints.fail(US);
+    expect(endpoints.current).toBe(EU);
+    endpoints.recover(US);
+    expect(endpoints.current).toBe(US);
+    expect(changes).toEqual([US, EU, US]);
+    endpoints.close();
+  });
+
+  it('should rewrite URLs under any endpoint', () => {
+    const endpoints = new Endpoints([EU, US], {}, vi.fn(), logger);
+    expect(endpoints.rewrite(`${EU}/cache/get`, US)).toBe(`${US}/cache/get`);
+    expect(endpoints.rewrite('https://eu.api.test/api/realtime/history?room=a', US)).toBe('https://us.api.test/api/realtime/history?room=a');
+    expect(endpoints.rewrite('https://other.test/v1/x', US)).toBe('https://other.test/v1/x');
+  });
+
+  it('should probe an unhealthy endpoint until it recovers', async () => {
+    let up = false;
+    const probe = vi.fn(async () => up);
+    const endpoints = new Endpoints([EU, US], { probeIntervalMs: 5, probe }, vi.fn(), logger);
+
+    endpoints.fail(EU);
+    await until(() => probe.mock.calls.length >= 2);
+    expect(endpoints.current).toBe(US);
+    up = true;
+    await until(() => endpoints.current === EU);
+    const calls = probe.mock.calls.length;
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(probe).toHaveBeenCalledTimes(calls);
+    endpoints.close();
+  });
+});
+
+describe('SDK failover', () => {
+  it('should retry on the next region after a connection error and stay there', async () => {
+    const fetchApi = vi.fn(async (url: string) => {
+      if (url.startsWith(EU)) throw new TypeError('fetch failed');
+      return json({ value: 'v', exists: true });
+    });
+    const sdk = new SDK({ apiKey: 'key', serverUrls: [EU, US], fetchApi, retry: { initialDelayMs: 0 }, logger });
+
+    expect(await sdk.cache.get('k')).toBe('v');
+    expect(await sdk.cache.get('k')).toBe('v');
+    expect(fetchApi.mock.calls.map(([url]) => new URL(url).host)).toEqual(['eu.api.test', 'us.api.test', 'us.api.test']);
+    await sdk.close();
+  });
+
+  it('should mark a region unhealthy on 5xx and return to the primary once it recovers', async () => {
+    let euDown = true;
+    const fetchApi = vi.fn(async (url: string, _init?: RequestInit) => {
+      if (url.startsWith('https://eu.') && euDown) return json({ code: 'UNAVAILABLE' }, 503);
+      return json({ value: new URL(url).host, exists: true });
+    });
+    const sdk = new SDK({
+      apiKey: 'key', serverUrls: [EU, US], fetchApi, retry: { initialDelayMs: 0 }, logger,
+      failover: { probeIntervalMs: 5 },
+    });
+
+    expect(await sdk.cache.get('k')).toBe('us.api.test');
+    euDown = false;
+    // The probe GETs the server URL itself.
+    await until(() => fetchApi.mock.calls.some(([url, init]) => url === EU && init?.method === 'GET'));
+    expect(await sdk.cache.get('k')).toBe('eu.api.test');
+    await sdk.close();
+  });
+
+  it('should not fail over on client errors', async () => {
+    const fetchApi = vi.fn(async (_url: string) => json({ code: 'NOT_FOUND', message: 'missing' }, 404));
+    const sdk = new SDK({ apiKey: 'key', serverUrls: [EU, US], fetchApi, logger });
+
+    await expect(sdk.cache.get('k')).rejects.toMatchObject({ status: 404 });
+    await expect(sdk.cache.get('k')).rejects.toMatchObject({ status: 404 });
+    expect(fetchApi.mock.calls.every(([url]) => url.startsWith(EU))).toBe(true);
+    await sdk.close();
+  });
+});
+
+describe('realtime failover', () => {
+  it('should connect to the next region and move back when the primary recovers', async () => {
+    const sockets: any[] = [];
+    class Socket {
+      onopen: (() => void) | null = null;
+      onclose: (() => void) | null = null;
+      onerror: ((err: any) => void) | null = null;
+      onmessage: ((event: any) => void) | null = null;
+      readyState = 0;
+      bufferedAmount = 0;
+      constructor(public url: string) {
+        sockets.push(this);
+        setTimeout(() => {
+          if (url.includes('eu.')) this.onerror?.(new Error('unreachable'));
+          else { this.readyState = 1; this.onopen?.(); }
+        }, 0);
+      }
+      send() {}
+      close() { this.readyState = 3; }
+    }
+    const endpoints = new Endpoints([EU, US], { probe: async () => false }, vi.fn(), logger);
+    const client = new NodeRealtimeClient({ serverUrl: EU, apiKey: 'key', webSocket: Socket, endpoints, logger });
+
+    await expect(client.connect()).rejects.toThrow('unreachable');
+    expect(endpoints.current).toBe(US);
+    await client.connect();
+    expect(sockets.map(s => new URL(s.url).host)).toEqual(['eu.api.test', 'us.api.test']);
+
+    endpoints.recover(EU);
+    expect(sockets).toHaveLength(3);
+    expect(new URL(sockets[2].url).host).toBe('eu.api.test');
+    client.disconnect();
+    endpoints.close();
+  });
+});
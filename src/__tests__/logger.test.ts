@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CacheApi, Configuration } from '../_generated/index.js';
+import { errorMiddleware } from '../errors.js';
+import { createLogger, loggingMiddleware, redactHeaders, redactProtocols, type Logger } from '../logger.js';
+import { NodeRealtimeClient } from '../realtime.js';
+
+function memoryLogger() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } satisfies Logger;
+}
+
+function createCache(response: Response, logger: Logger) {
+  const fetchApi = vi.fn().mockResolvedValue(response);
+  const config = new Configuration({
+    basePath: 'https://api.test.com/v1',
+    headers: { 'X-Aerostack-Key': 'sk_live_secret' },
+    fetchApi,
+    middleware: [loggingMiddleware(logger), errorMiddleware],
+  });
+  return new CacheApi(config);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('redaction', () => {
+  it('should redact credential headers case-insensitively', () => {
+    expect(redactHeaders({ 'X-Aerostack-Key': 'k', authorization: 'Bearer t', 'Content-Type': 'application/json' })).toEqual({
+      'X-Aerostack-Key': '[REDACTED]',
+      authorization: '[REDACTED]',
+      'Content-Type': 'application/json',
+    });
+  });
+
+  it('should accept Headers instances', () => {
+    expect(redactHeaders(new Headers({ Authorization: 'Bearer t' }))).toEqual({ authorization: '[REDACTED]' });
+  });
+
+  it('should redact credential subprotocols', () => {
+    expect(redactProtocols(['aerostack-key.sk_live_1', 'aerostack-token.jwt', 'aerostack-v1'])).toEqual([
+      'aerostack-key.[REDACTED]',
+      'aerostack-token.[REDACTED]',
+      'aerostack-v1',
+    ]);
+  });
+});
+
+describe('createLogger', () => {
+  it('should drop calls below the level', () => {
+    const target = memoryLogger();
+    const logger = createLogger(target, 'warn');
+    logger.info({}, 'ignored');
+    logger.error({ a: 1 }, 'kept');
+    expect(target.info).not.toHaveBeenCalled();
+    expect(target.error).toHaveBeenCalledWith({ a: 1 }, 'kept');
+  });
+
+  it('should default to info for a supplied logger', () => {
+    const target = memoryLogger();
+    const logger = createLogger(target);
+    logger.debug({}, 'ignored');
+    logger.info({}, 'kept');
+    expect(target.debug).not.toHaveBeenCalled();
+    expect(target.info).toHaveBeenCalledOnce();
+  });
+
+  it('should log warnings to the console by default', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+    const debug = vi.spyOn(console, 'debug').mockImplementation(() => { });
+    const logger = createLogger();
+    logger.debug({}, 'quiet');
+    logger.warn({ x: 1 }, 'loud');
+    expect(debug).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith('Aerostack: loud', { x: 1 });
+  });
+
+  it('should log nothing when silent', () => {
+    const target = memoryLogger();
+    createLogger(target, 'silent').error({}, 'ignored');
+    expect(target.error).not.toHaveBeenCalled();
+  });
+});
+
+describe('loggingMiddleware', () => {
+  it('should log method, path, status, duration and request id', async () => {
+    const logger = memoryLogger();
+    const response = new Response(JSON.stringify({ value: 1, exists: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'X-Request-ID': 'req_1' },
+    });
+    await createCache(response, logger).cacheGet({ cacheGetRequest: { key: 'k' } });
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'POST', path: '/v1/cache/get', headers: expect.objectContaining({ 'X-Aerostack-Key': '[REDACTED]' }) }),
+      'HTTP request',
+    );
+    expect(logger.debug).toHaveBeenCalledWith(
+      { method: 'POST', path: '/v1/cache/get', status: 200, durationMs: expect.any(Number), requestId: 'req_1' },
+      'HTTP response',
+    );
+    expect(JSON.stringify(logger.debug.mock.calls)).not.toContain('sk_live_secret');
+  });
+
+  it('should log failed responses at info before errorMiddleware throws', async () => {
+    const logger = memoryLogger();
+    const response = new Response(JSON.stringify({ code: 'INTERNAL_ERROR', message: 'boom' }), { status: 500 });
+    await expect(createCache(response, logger).cacheGet({ cacheGetRequest: { key: 'k' } })).rejects.toThrow('boom');
+
+    expect(logger.info).toHaveBeenCalledWith(expect.objectContaining({ path: '/v1/cache/get', status: 500 }), 'HTTP request failed');
+  });
+});
+
+describe('realtime logging', () => {
+  it('should log connects without the API key and route callback errors to the logger', async () => {
+    class MockWebSocket {
+      onopen: (() => void) | null = null;
+      constructor(public url: string, public protocols?: string[]) {
+        setTimeout(() => this.onopen?.(), 0);
+      }
+      send() { }
+      close() { }
+    }
+    vi.stubGlobal('WebSocket', MockWebSocket);
+    const logger = memoryLogger();
+    const client = new NodeRealtimeClient({ serverUrl: 'https://api.test.com/v1', apiKey: 'sk_live_secret', projectId: 'proj-1', logger });
+
+    await client.connect();
+    expect(logger.debug).toHaveBeenCalledWith(
+      expect.objectContaining({ protocols: ['aerostack-key.[REDACTED]', 'aerostack-v1'] }),
+      'Realtime connecting',
+    );
+    expect(JSON.stringify(logger.debug.mock.calls)).not.toContain('sk_live_secret');
+
+    const sub = client.channel('room').on('*', () => { throw new Error('bad handler'); });
+    sub._emit({ type: 'event', topic: sub.topic, event: 'ping', data: {} });
+    expect(logger.error).toHaveBeenCalledWith(expect.objectContaining({ topic: sub.topic }), 'Realtime callback error');
+    client.disconnect();
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SDK } from '../sdk.js';
+import { MemoryBackend } from '../memory.js';
+import { ValidationError } from '../errors.js';
+import type { RealtimePayload } from '../realtime.js';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function createSdk(backend: 'memory' | MemoryBackend = 'memory') {
+  return new SDK({ backend, apiKey: 'sk_test', projectId: 'proj-1', retry: false });
+}
+
+describe('MemoryBackend', () => {
+  describe('cache', () => {
+    it('should expire keys after their ttl', async () => {
+      vi.useFakeTimers();
+      const sdk = createSdk();
+      await sdk.cache.set('session', { user: 1 }, 60);
+      await sdk.cache.set('config', 'forever');
+
+      expect(await sdk.cache.get('session')).toEqual({ user: 1 });
+      vi.advanceTimersByTime(61_000);
+      expect(await sdk.cache.get('session')).toBeNull();
+      expect(await sdk.cache.exists('config')).toBe(true);
+    });
+
+    it('should increment counters and reject non-numeric values', async () => {
+      const sdk = createSdk();
+      expect(await sdk.cache.increment('hits')).toBe(1);
+      expect(await sdk.cache.increment('hits', 5)).toBe(6);
+      expect(await sdk.cache.increment('fresh', 1, 10)).toBe(11);
+
+      await sdk.cache.set('name', 'alice');
+      await expect(sdk.cache.increment('name')).rejects.toThrow(ValidationError);
+    });
+
+    it('should page through keys with a cursor', async () => {
+      const sdk = createSdk();
+      await sdk.cache.setMany(['user:c', 'user:a', 'user:b', 'other'].map(key => ({ key, value: key })));
+
+      const first = await sdk.cache.list('user:', 2);
+      expect(first.keys?.map(k => k.key)).toEqual(['user:a', 'user:b']);
+      expect(first.listComplete).toBe(false);
+
+      const second = await sdk.cache.list('user:', 2, first.cursor);
+      expect(second.keys?.map(k => k.key)).toEqual(['user:c']);
+      expect(second.listComplete).toBe(true);
+    });
+
+    it('should flush by prefix', async () => {
+      const sdk = createSdk();
+      await sdk.cache.setMany([{ key: 'tmp:1', value: 1 }, { key: 'tmp:2', value: 2 }, { key: 'keep', value: 3 }]);
+
+      const result = await sdk.cache.flush('tmp:');
+
+      expect(result.deleted).toBe(2);
+      expect(await sdk.cache.keys()).toEqual(['keep']);
+      const many = await sdk.cache.getMany(['tmp:1', 'keep']);
+      expect(many.map(entry => entry._exists)).toEqual([false, true]);
+    });
+  });
+
+  describe('queue', () => {
+    it('should move jobs through their statuses', async () => {
+      const backend = new MemoryBackend();
+      const seen: any[] = [];
+      backend.onJob('email', job => { seen.push(job.data); });
+      backend.onJob('broken', () => { throw new Error('boom'); });
+      const sdk = createSdk(backend);
+
+      const { jobId } = await sdk.queue.queueEnqueue({ queueEnqueueRequest: { type: 'email', data: { to: 'a@b.c' } } });
+      const { jobId: failedId } = await sdk.queue.queueEnqueue({ queueEnqueueRequest: { type: 'broken', data: {} } });
+      const { jobId: idleId } = await sdk.queue.queueEnqueue({ queueEnqueueRequest: { type: 'report', data: {} } });
+      expect((await sdk.queue.queueGetJob({ queueGetJobRequest: { jobId: jobId! } })).job?.status).toBe('queued');
+
+      await vi.waitFor(async () => {
+        expect((await sdk.queue.queueGetJob({ queueGetJobRequest: { jobId: jobId! } })).job?.status).toBe('completed');
+      });
+      expect((await sdk.queue.queueGetJob({ queueGetJobRequest: { jobId: failedId! } })).job?.status).toBe('failed');
+      expect(seen).toEqual([{ to: 'a@b.c' }]);
+
+      await expect(sdk.queue.queueCancelJob({ queueGetJobRequest: { jobId: idleId! } })).resolves.toMatchObject({ success: true });
+      const cancelled = await sdk.queue.queueListJobs({ queueListJobsRequest: { status: 'cancelled' } });
+      expect(cancelled.jobs?.map(job => job.id)).toEqual([idleId]);
+    });
+  });
+
+  describe('storage', () => {
+    it('should store objects with etags and metadata', async () => {
+      const sdk = createSdk();
+      await sdk.storage.storageUpload({ file: new Blob(['hello']), key: 'docs/a.txt', contentType: 'text/plain' });
+
+      const metadata = await sdk.storage.storageGetMetadata({ storageGetRequest: { key: 'docs/a.txt' } });
+      expect(metadata).toMatchObject({ _exists: true, size: 5, contentType: 'text/plain', etag: '"5d41402abc4b2a76b9719d911017c592"' });
+      expect(await (await sdk.storage.storageGet({ storageGetRequest: { key: 'docs/a.txt' } })).text()).toBe('hello');
+
+      await sdk.storage.storageMove({ storageMoveRequest: { sourceKey: 'docs/a.txt', destKey: 'docs/b.txt' } });
+      const list = await sdk.storage.storageList({ storageListRequest: { prefix: 'docs/' } });
+      expect(list.objects?.map(o => o.key)).toEqual(['docs/b.txt']);
+      await expect(sdk.storage.storageGet({ storageGetRequest: { key: 'docs/a.txt' } })).rejects.toMatchObject({ status: 404, code: 'NOT_FOUND' });
+    });
+  });
+
+  describe('search', () => {
+    it('should rank documents by lexical relevance', async () => {
+      const sdk = createSdk();
+      await sdk.ai.ingest({ ingestRequest: { id: 'a', type: 'faq', content: 'How do I reset my password?' } });
+      await sdk.ai.ingest({ ingestRequest: { id: 'b', type: 'faq', content: 'Billing and invoices' } });
+      await sdk.ai.ingest({ ingestRequest: { id: 'c', type: 'blog', content: 'Password managers and password hygiene' } });
+
+      const { results } = await sdk.ai.query({ queryRequest: { text: 'reset password' } });
+      expect(results?.map(r => r.id)).toEqual(['a', 'c']);
+      expect(results![0]!.score).toBeGreaterThan(results![1]!.score!);
+      expect(results![0]!.score).toBeLessThanOrEqual(1);
+
+      const faqOnly = await sdk.ai.query({ queryRequest: { text: 'password', types: ['faq'] } });
+      expect(faqOnly.results?.map(r => r.id)).toEqual(['a']);
+    });
+  });
+
+  describe('gateway', () => {
+    it('should stream chat completions', async () => {
+      const backend = new MemoryBackend().onChat(() => 'Hi there friend');
+      const sdk = createSdk(backend);
+      const tokens: string[] = [];
+
+      const result = await sdk.streamGateway({ apiSlug: 'bot', messages: [{ role: 'user', content: 'hello' }], onToken: t => tokens.push(t) });
+
+      expect(result.text).toBe('Hi there friend');
+      expect(tokens).toHaveLength(3);
+      expect(result.tokensUsed).toBe(4);
+    });
+  });
+
+  describe('realtime', () => {
+    it('should deliver published events and presence between clients', async () => {
+      const backend = new MemoryBackend();
+      const alice = createSdk(backend);
+      const bob = createSdk(backend);
+      await alice.realtime.connect();
+      await bob.realtime.connect();
+
+      const received: RealtimePayload[] = [];
+      const joins: RealtimePayload[] = [];
+      bob.realtime.channel('rooms/lobby').on('chat', p => received.push(p)).on('presence:join', p => joins.push(p)).subscribe();
+      alice.realtime.channel('rooms/lobby').subscribe();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const room = alice.realtime.channel('rooms/lobby');
+      room.track({ name: 'alice' });
+      room.publish('chat', { text: 'hi' }, { persist: true });
+
+      await vi.waitFor(() => expect(received).toHaveLength(1));
+      expect(received[0]!.data).toEqual({ text: 'hi' });
+      expect(joins[0]!.data).toMatchObject({ state: { name: 'alice' } });
+      expect((await bob.realtime.channel('rooms/lobby').getHistory()).map(m => m.data)).toEqual([{ text: 'hi' }]);
+
+      alice.dispose();
+      bob.dispose();
+    });
+
+    it('should broadcast simulated database changes', async () => {
+      const backend = new MemoryBackend();
+      const sdk = createSdk(backend);
+      await sdk.realtime.connect();
+      const inserts: RealtimePayload[] = [];
+      sdk.realtime.channel('orders').on('INSERT', p => inserts.push(p)).subscribe();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      backend.broadcast('table/orders/proj-1', { type: 'db_change', operation: 'INSERT', data: { id: 1 } });
+
+      await vi.waitFor(() => expect(inserts).toHaveLength(1));
+      sdk.dispose();
+    });
+  });
+});
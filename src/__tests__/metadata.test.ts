@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SDK } from '../sdk.js';
+import { parseRateLimit } from '../metadata.js';
+import { AerostackError } from '../errors.js';
+import { json } from './helpers.js';
+
+describe('parseRateLimit', () => {
+  it('should read X-RateLimit headers with an epoch reset', () => {
+    const info = parseRateLimit(new Headers({ 'X-RateLimit-Limit': '100', 'X-RateLimit-Remaining': '99', 'X-RateLimit-Reset': '1900000000' }));
+    expect(info).toEqual({ limit: 100, remaining: 99, reset: new Date(1_900_000_000_000) });
+  });
+
+  it('should read IETF RateLimit headers with a relative reset', () => {
+    vi.useFakeTimers({ now: 0 });
+    const info = parseRateLimit(new Headers({ 'RateLimit-Limit': '10', 'RateLimit-Remaining': '0', 'RateLimit-Reset': '30' }));
+    expect(info).toEqual({ limit: 10, remaining: 0, reset: new Date(30_000) });
+    vi.useRealTimers();
+  });
+
+  it('should leave missing headers undefined', () => {
+    expect(parseRateLimit(new Headers())).toEqual({ limit: undefined, remaining: undefined, reset: undefined });
+  });
+});
+
+describe('withResponse', () => {
+  it('should return data with response metadata', async () => {
+    const fetchApi = vi.fn(async () => json({ value: 'v', exists: true }, 200, {
+      'X-Request-ID': 'req_1',
+      'X-RateLimit-Limit': '100',
+      'X-RateLimit-Remaining': '42',
+    }));
+    const sdk = new SDK({ apiKey: 'key', fetchApi });
+
+    const result = await sdk.withResponse().cache.get('k');
+    expect(result).toMatchObject({ data: 'v', requestId: 'req_1', status: 200, rateLimit: { limit: 100, remaining: 42 } });
+    expect(result.headers.get('content-type')).toBe('application/json');
+    expect(result.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should keep concurrent calls apart', async () => {
+    const fetchApi = vi.fn(async (_url: string, init: RequestInit) => {
+      const { key } = JSON.parse(init.body as string);
+      await new Promise(resolve => setTimeout(resolve, key === 'slow' ? 20 : 0));
+      return json({ value: key, exists: true }, 200, { 'X-Request-ID': `req_${key}` });
+    });
+    const sdk = new SDK({ apiKey: 'key', fetchApi });
+
+    const [slow, fast] = await Promise.all([sdk.withResponse().cache.get('slow'), sdk.withResponse().cache.get('fast')]);
+    expect(slow).toMatchObject({ data: 'slow', requestId: 'req_slow' });
+    expect(fast).toMatchObject({ data: 'fast', requestId: 'req_fast' });
+  });
+
+  it('should report the final response after retries', async () => {
+    const fetchApi = vi.fn()
+      .mockResolvedValueOnce(json({ code: 'UNAVAILABLE' }, 503))
+      .mockResolvedValueOnce(json({ value: 'v', exists: true }, 200, { 'X-Request-ID': 'req_2' }));
+    const sdk = new SDK({ apiKey: 'key', fetchApi, retry: { initialDelayMs: 0, maxDelayMs: 0 } });
+
+    const result = await sdk.withResponse().cache.get('k');
+    expect(fetchApi).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ data: 'v', status: 200, requestId: 'req_2' });
+  });
+
+  it('should capture the calls made inside a callback', async () => {
+    const fetchApi = vi.fn(async () => json({ value: 'v', exists: true }, 200, { 'X-Request-ID': 'req_3' }));
+    const sdk = new SDK({ apiKey: 'key', fetchApi });
+
+    const result = await sdk.withResponse(async () => (await sdk.cache.get('k')) + '!');
+    expect(result).toMatchObject({ data: 'v!', requestId: 'req_3', status: 200 });
+  });
+
+  it('should cover streamGateway', async () => {
+    const fetchApi = vi.fn(async () => new Response('data: {"choices":[{"delta":{"content":"hi"}}]}\n\ndata: [DONE]\n\n', {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream', 'X-Request-ID': 'req_4' },
+    }));
+    const sdk = new SDK({ apiKey: 'key', fetchApi });
+
+    const result = await sdk.withResponse().streamGateway({ apiSlug: 'bot', messages: [{ role: 'user', content: 'hi' }] });
+    expect(result).toMatchObject({ data: { text: 'hi' }, requestId: 'req_4', status: 200 });
+  });
+
+  it('should still reject with the typed error', async () => {
+    const fetchApi = vi.fn(async () => json({ code: 'AUTH_INVALID_KEY', message: 'bad key' }, 401));
+    const sdk = new SDK({ apiKey: 'key', fetchApi, retry: false });
+
+    await expect(sdk.withResponse().cache.get('k')).rejects.toMatchObject({ code: 'AUTH_INVALID_KEY' });
+  });
+
+  it('should reject with NO_RESPONSE when the call made no request', async () => {
+    const sdk = new SDK({ apiKey: 'key', fetchApi: vi.fn(async () => json({})) });
+
+    const error = await sdk.withResponse(async () => 'local').catch(e => e);
+
+    expect(error).toBeInstanceOf(AerostackError);
+    expect(error.code).toBe('NO_RESPONSE');
+  });
+});
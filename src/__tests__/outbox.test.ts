@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SDK } from '../sdk.js';
+import { FileOutboxStore, MemoryOutboxStore } from '../outbox.js';
+import { OutboxQueuedError } from '../errors.js';
+import { requestInit } from '../transport.js';
+import { json } from './helpers.js';
+
+let dir: string;
+let online: boolean;
+let server: ReturnType<typeof vi.fn>;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'aerostack-outbox-'));
+  online = false;
+  server = vi.fn(async (url: string, _init: RequestInit) => {
+    if (!online) throw new TypeError('fetch failed');
+    if (url.endsWith('/queue/enqueue')) return json({ jobId: 'job_1', status: 'queued' }, 201);
+    if (url.endsWith('/cache/get')) return json({ value: 'v', exists: true });
+    return json({ success: true });
+  });
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const sent = () => server.mock.calls.map(([url, init]) => ({
+  path: new URL(url).pathname,
+  body: JSON.parse(init.body as string),
+  key: (init.headers as Record<string, string>)['Idempotency-Key'],
+}));
+
+const enqueue = (sdk: SDK, type: string, options?: Parameters<typeof requestInit>[0]) =>
+  sdk.queue.queueEnqueue({ queueEnqueueRequest: { type, data: {} } }, requestInit(options));
+
+describe('Outbox', () => {
+  it('should store a failed write and replay it with the same key', async () => {
+    const sdk = new SDK({ apiKey: 'sk_secret', fetchApi: server, retry: false, outbox: true });
+
+    const error = await enqueue(sdk, 'email').catch(e => e);
+    expect(error).toBeInstanceOf(OutboxQueuedError);
+    const [entry] = await sdk.outbox!.entries();
+    expect(entry).toMatchObject({ id: error.details.id, operation: 'queue.enqueue', attempts: 0, lastError: 'fetch failed' });
+    expect(JSON.stringify(entry)).not.toContain('sk_secret');
+
+    online = true;
+    expect(await sdk.outbox!.flush()).toBe(0);
+    expect(sent().at(-1)).toMatchObject({ path: '/v1/queue/enqueue', body: { type: 'email' }, key: error.details.id });
+    const replay = server.mock.calls.at(-1)![1].headers;
+    expect(replay['x-aerostack-key'] ?? replay['X-Aerostack-Key']).toBe('sk_secret');
+    expect(await sdk.outbox!.entries()).toEqual([]);
+    await sdk.close();
+  });
+
+  it('should keep call order, sending stored writes before new ones', async () => {
+    const sdk = new SDK({ apiKey: 'key', fetchApi: server, retry: false, outbox: true });
+
+    await expect(enqueue(sdk, 'first')).rejects.toBeInstanceOf(OutboxQueuedError);
+    await expect(sdk.cache.set('k', 'v')).rejects.toBeInstanceOf(OutboxQueuedError);
+    online = true;
+    server.mockClear();
+
+    await expect(enqueue(sdk, 'third')).resolves.toMatchObject({ jobId: 'job_1' });
+    expect(sent().map(c => c.body.type ?? c.body.key)).toEqual(['first', 'k', 'third']);
+    await sdk.close();
+  });
+
+  it('should stop replaying at the first entry that still fails', async () => {
+    let failFirst = true;
+    server.mockImplementation(async (_url: string, init: RequestInit) => {
+      if (!online || (failFirst && JSON.parse(init.body as string).type === 'first')) return json({ code: 'INTERNAL_ERROR' }, 503);
+      return json({ jobId: 'job_1', status: 'queued' }, 201);
+    });
+    const sdk = new SDK({ apiKey: 'key', fetchApi: server, retry: false, outbox: true });
+
+    await expect(enqueue(sdk, 'first')).rejects.toBeInstanceOf(OutboxQueuedError);
+    await expect(enqueue(sdk, 'second')).rejects.toBeInstanceOf(OutboxQueuedError);
+    online = true;
+
+    expect(await sdk.outbox!.flush()).toBe(2);
+    // The second call already tried to flush ahead of itself.
+    expect((await sdk.outbox!.entries()).map(e => e.attempts)).toEqual([2, 0]);
+    failFirst = false;
+    expect(await sdk.outbox!.flush()).toBe(0);
+    await sdk.close();
+  });
+
+  it('should dedupe entries by idempotency key', async () => {
+    const sdk = new SDK({ apiKey: 'key', fetchApi: server, retry: false, outbox: true });
+
+    await expect(enqueue(sdk, 'bill', { idempotencyKey: 'invoice-7' })).rejects.toBeInstanceOf(OutboxQueuedError);
+    await expect(enqueue(sdk, 'bill', { idempotencyKey: 'invoice-7' })).rejects.toBeInstanceOf(OutboxQueuedError);
+    expect((await sdk.outbox!.entries()).map(e => e.id)).toEqual(['invoice-7']);
+    await sdk.close();
+  });
+
+  it('should report rejected and expired entries as permanent failures', async () => {
+    const onPermanentFailure = vi.fn();
+    const store = new MemoryOutboxStore();
+    const sdk = new SDK({ apiKey: 'key', fetchApi: server, retry: false, outbox: { store, maxAgeMs: 50, onPermanentFailure } });
+
+    await expect(enqueue(sdk, 'old')).rejects.toBeInstanceOf(OutboxQueuedError);
+    const [old] = await store.list();
+    await store.put({ ...old!, createdAt: Date.now() - 60 });
+    await expect(enqueue(sdk, 'invalid')).rejects.toBeInstanceOf(OutboxQueuedError);
+    online = true;
+    server.mockReset().mockImplementation(async () => json({ code: 'VALIDATION_ERROR', message: 'bad job' }, 400));
+
+    expect(await sdk.outbox!.flush()).toBe(0);
+    expect(onPermanentFailure).toHaveBeenCalledTimes(2);
+    expect(onPermanentFailure.mock.calls[0]![1].code).toBe('OUTBOX_EXPIRED');
+    expect(onPermanentFailure.mock.calls[1]![1]).toMatchObject({ code: 'VALIDATION_ERROR', status: 400 });
+    expect(server).toHaveBeenCalledTimes(1);
+    await sdk.close();
+  });
+
+  it('should store writes rejected with 429 or 408', async () => {
+    online = true;
+    for (const status of [429, 408]) {
+      const sdk = new SDK({ apiKey: 'key', fetchApi: server, retry: false, outbox: true });
+      server.mockImplementationOnce(async () => json({ code: 'RATE_LIMIT_EXCEEDED', message: 'slow down' }, status));
+
+      await expect(enqueue(sdk, 'billing')).rejects.toBeInstanceOf(OutboxQueuedError);
+      expect(await sdk.outbox!.entries()).toMatchObject([{ operation: 'queue.enqueue', lastError: 'slow down' }]);
+      await sdk.close();
+    }
+  });
+
+  it('should pass through other operations and client errors', async () => {
+    const sdk = new SDK({ apiKey: 'key', fetchApi: server, retry: false, outbox: true });
+
+    await expect(sdk.cache.get('k')).rejects.not.toBeInstanceOf(OutboxQueuedError);
+    online = true;
+    server.mockImplementation(async () => json({ code: 'VALIDATION_ERROR', message: 'bad job' }, 400));
+    await expect(enqueue(sdk, 'x')).rejects.toMatchObject({ status: 400 });
+    expect(await sdk.outbox!.entries()).toEqual([]);
+    await sdk.close();
+  });
+
+  it('should replay entries persisted by an earlier process', async () => {
+    const path = join(dir, 'outbox.json');
+    const first = new SDK({ apiKey: 'key', fetchApi: server, retry: false, outbox: { store: new FileOutboxStore(path) } });
+    await expect(first.gateway.gatewayBillingLog({ gatewayBillingLogRequest: { consumerId: 'c', apiId: 'a', units: 5 } }))
+      .rejects.toBeInstanceOf(OutboxQueuedError);
+    await first.close();
+    expect(JSON.parse(await readFile(path, 'utf8')).entries).toHaveLength(1);
+
+    online = true;
+    const second = new SDK({ apiKey: 'key', fetchApi: server, retry: false, outbox: { store: new FileOutboxStore(path) } });
+    expect(await second.outbox!.flush()).toBe(0);
+    expect(sent().at(-1)!.path).toBe('/v1/gateway/billing/log');
+    expect(JSON.parse(await readFile(path, 'utf8')).entries).toEqual([]);
+    await second.close();
+  });
+});
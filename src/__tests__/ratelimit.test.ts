@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CacheApi, Configuration } from '../_generated/index.js';
+import { RateLimiter, withRateLimit } from '../ratelimit.js';
+import { requestInit } from '../transport.js';
+import { json } from './helpers.js';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('RateLimiter', () => {
+  it('should pace requests with a token bucket', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2, burst: 1 });
+    const started: number[] = [];
+    const calls = [0, 1, 2].map(() => limiter.run('cache', async () => { started.push(Date.now()); }));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(500);
+    await Promise.all(calls);
+    expect(started).toHaveLength(3);
+  });
+
+  it('should cap requests in flight', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    let active = 0;
+    let peak = 0;
+    const calls = gates.map(gate => limiter.run('db', async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await gate.promise;
+      active--;
+    }));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(active).toBe(2);
+    gates[0]!.resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(active).toBe(2);
+    gates[1]!.resolve();
+    gates[2]!.resolve();
+    await Promise.all(calls);
+    expect(peak).toBe(2);
+  });
+
+  it('should run queued requests by priority, then in call order', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const gate = deferred();
+    const order: string[] = [];
+    const first = limiter.run('cache', () => gate.promise);
+    const calls = [
+      limiter.run('cache', async () => { order.push('low-1'); }),
+      limiter.run('cache', async () => { order.push('high'); }, 5),
+      limiter.run('cache', async () => { order.push('low-2'); }),
+    ];
+
+    gate.resolve();
+    await Promise.all([first, ...calls]);
+    expect(order).toEqual(['high', 'low-1', 'low-2']);
+  });
+
+  it('should apply service limits separately from other services', async () => {
+    const limiter = new RateLimiter({ services: { storage: { maxConcurrent: 1 } } });
+    const gate = deferred();
+    const blocked = limiter.run('storage', () => gate.promise);
+    const queued = vi.fn();
+    const waiting = limiter.run('storage', async () => queued());
+    const other = vi.fn();
+    await limiter.run('cache', async () => other());
+
+    expect(other).toHaveBeenCalled();
+    expect(queued).not.toHaveBeenCalled();
+    gate.resolve();
+    await Promise.all([blocked, waiting]);
+    expect(queued).toHaveBeenCalled();
+  });
+
+  it('should drop aborted requests from the queue', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const gate = deferred();
+    const blocked = limiter.run('cache', () => gate.promise);
+    const controller = new AbortController();
+    const call = vi.fn();
+    const aborted = limiter.run('cache', async () => call(), 0, controller.signal);
+
+    controller.abort(new Error('cancelled'));
+    await expect(aborted).rejects.toThrow('cancelled');
+    gate.resolve();
+    await blocked;
+    expect(call).not.toHaveBeenCalled();
+  });
+});
+
+describe('withRateLimit', () => {
+  it('should queue generated API calls by service and priority', async () => {
+    const gate = deferred();
+    const order: string[] = [];
+    const fetchApi = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      const key = JSON.parse(init.body as string).key;
+      order.push(key);
+      if (key === 'first') await gate.promise;
+      return json({ value: key, exists: true });
+    });
+    const limiter = new RateLimiter({ services: { cache: { maxConcurrent: 1 } } });
+    const cache = new CacheApi(new Configuration({ basePath: 'https://api.test.com/v1', fetchApi: withRateLimit(fetchApi, limiter) }));
+
+    const calls = [
+      cache.cacheGet({ cacheGetRequest: { key: 'first' } }),
+      cache.cacheGet({ cacheGetRequest: { key: 'normal' } }),
+      cache.cacheGet({ cacheGetRequest: { key: 'urgent' } }, requestInit({ priority: 10 })),
+    ];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(order).toEqual(['first']);
+
+    gate.resolve();
+    await Promise.all(calls);
+    expect(order).toEqual(['first', 'urgent', 'normal']);
+  });
+
+  it('should hold the concurrency slot until the response body is consumed', async () => {
+    const fetchApi = vi.fn().mockImplementation(async () => new Response('data: hi\n\n', { status: 200 }));
+    const limited = withRateLimit(fetchApi, new RateLimiter({ maxConcurrent: 1 }));
+
+    const first = await limited('https://api.test.com/api/gateway/bot/v1/chat/completions', {});
+    const second = limited('https://api.test.com/api/gateway/bot/v1/chat/completions', {});
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchApi).toHaveBeenCalledOnce();
+
+    expect(await first.text()).toBe('data: hi\n\n');
+    await (await second).body!.cancel();
+    expect(fetchApi).toHaveBeenCalledTimes(2);
+  });
+});
@@ -15,7 +15,7 @@ class MockWebSocket {
   onerror: ((err: any) => void) | null = null;
   sent: any[] = [];
 
-  constructor(url: string) {
+  constructor(url: string, public protocols?: string[]) {
     this.url = url;
     setTimeout(() => this.onopen?.(), 0);
   }
@@ -270,6 +270,59 @@ describe('NodeRealtimeClient', () => {
     });
   });
 
+  describe('close', () => {
+    it('should flush queued messages and unsubscribe before closing', async () => {
+      const sockets: MockWebSocket[] = [];
+      vi.stubGlobal('WebSocket', class extends MockWebSocket {
+        constructor(url: string, protocols?: string[]) {
+          super(url, protocols);
+          sockets.push(this);
+        }
+      });
+      const client = new NodeRealtimeClient({
+        serverUrl: 'https://api.test.com/v1',
+        projectId: 'proj-1',
+      });
+      const sub = client.channel('users').subscribe();
+      sub.publish('bye', { id: 1 });
+      void client.connect();
+
+      const closing = client.close({ timeoutMs: 1000 });
+      await vi.advanceTimersByTimeAsync(10);
+      await closing;
+
+      expect(sockets[0]!.sent.map((m: any) => m.type)).toEqual(['subscribe', 'publish', 'unsubscribe']);
+      expect(sockets[0]!.readyState).toBe(MockWebSocket.CLOSED);
+      expect(client.status).toBe('disconnected');
+      expect(sub.isSubscribed).toBe(false);
+      expect((client as any).heartbeatTimer).toBeNull();
+    });
+
+    it('should give up waiting for a connection after timeoutMs', async () => {
+      vi.stubGlobal('WebSocket', class {
+        onopen = null;
+        onmessage = null;
+        onclose = null;
+        onerror = null;
+        send() { }
+        close() { }
+      });
+      const client = new NodeRealtimeClient({
+        serverUrl: 'https://api.test.com/v1',
+        projectId: 'proj-1',
+      });
+      client.channel('users').publish('lost', {});
+      void client.connect();
+
+      const closing = client.close({ timeoutMs: 100 });
+      await vi.advanceTimersByTimeAsync(100);
+      await closing;
+
+      expect(client.status).toBe('disconnected');
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
   describe('channel', () => {
     it('should qualify topic with projectId', () => {
       const client = new NodeRealtimeClient({
@@ -405,6 +458,45 @@ describe('NodeRealtimeClient', () => {
     });
   });
 
+  describe('setApiKey', () => {
+    it('should reconnect with the new key and replay subscriptions', async () => {
+      const client = new NodeRealtimeClient({
+        serverUrl: 'https://api.test.com/v1',
+        projectId: 'proj-1',
+        apiKey: 'old-key',
+      });
+      const connectPromise = client.connect();
+      await vi.advanceTimersByTimeAsync(10);
+      await connectPromise;
+      const sub = client.channel('users').subscribe();
+      const oldWs = (client as any).ws as MockWebSocket;
+
+      client.setApiKey('new-key');
+      sub.publish('ping', {});
+      await vi.advanceTimersByTimeAsync(10);
+
+      const newWs = (client as any).ws as MockWebSocket;
+      expect(newWs).not.toBe(oldWs);
+      expect(newWs.protocols).toContain('aerostack-key.new-key');
+      expect(client.status).toBe('connected');
+      expect(newWs.sent.map((m: any) => m.type)).toEqual(['subscribe', 'publish']);
+      expect(sub.isSubscribed).toBe(true);
+    });
+
+    it('should use apiKeyProvider on connect', async () => {
+      const client = new NodeRealtimeClient({
+        serverUrl: 'https://api.test.com/v1',
+        projectId: 'proj-1',
+        apiKeyProvider: async () => 'provided-key',
+      });
+      const connectPromise = client.connect();
+      await vi.advanceTimersByTimeAsync(10);
+      await connectPromise;
+
+      expect(((client as any).ws as MockWebSocket).protocols).toContain('aerostack-key.provided-key');
+    });
+  });
+
   describe('maxReconnectAttempts', () => {
     it('should accept maxReconnectAttempts option', () => {
       const client = new NodeRealtimeClient({
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CacheApi, Configuration, FetchError, RequiredError } from '../_generated/index.js';
+import { AerostackError, AuthInvalidKeyError, ValidationError, errorMiddleware, toAerostackError } from '../errors.js';
+import { err, ok, safeClient, toResult } from '../result.js';
+import { json } from './helpers.js';
+
+describe('toResult', () => {
+  it('should wrap resolved values', async () => {
+    expect(await toResult(async () => 42)).toEqual(ok(42));
+  });
+
+  it('should wrap thrown errors as AerostackError', async () => {
+    const result = await toResult(async () => { throw new Error('boom'); });
+    expect(result.ok).toBe(false);
+    expect(result.error).toBeInstanceOf(AerostackError);
+    expect(result.error!.message).toBe('boom');
+  });
+});
+
+describe('safeClient', () => {
+  it('should return ok results from generated APIs', async () => {
+    const fetchApi = vi.fn().mockResolvedValue(json({ exists: true, value: 'v' }));
+    const cache = safeClient(new CacheApi(new Configuration({ fetchApi, middleware: [errorMiddleware] })));
+
+    const result = await cache.cacheGet({ cacheGetRequest: { key: 'k' } });
+    expect(result.ok).toBe(true);
+    expect(result.value?.value).toBe('v');
+  });
+
+  it('should return typed errors instead of throwing', async () => {
+    const fetchApi = vi.fn().mockResolvedValue(json({ code: 'AUTH_INVALID_KEY', message: 'bad key' }, 401));
+    const cache = safeClient(new CacheApi(new Configuration({ fetchApi, middleware: [errorMiddleware] })));
+
+    const result = await cache.cacheGet({ cacheGetRequest: { key: 'k' } });
+    expect(result.ok).toBe(false);
+    expect(result.error).toBeInstanceOf(AuthInvalidKeyError);
+  });
+
+  it('should wrap nested namespaces and leave sync methods alone', async () => {
+    const client = safeClient({
+      version: () => '1.0',
+      ai: { search: { get: vi.fn().mockRejectedValue(Object.assign(new Error('nope'), { status: 403, code: 'FORBIDDEN' })) } },
+    });
+
+    expect(client.version()).toBe('1.0');
+    const result = await client.ai.search.get();
+    expect(result).toEqual(err(expect.objectContaining({ code: 'FORBIDDEN', status: 403 })));
+  });
+});
+
+describe('toAerostackError', () => {
+  it('should keep AerostackError instances', () => {
+    const e = new ValidationError('bad');
+    expect(toAerostackError(e)).toBe(e);
+  });
+
+  it('should map runtime errors', () => {
+    expect(toAerostackError(new RequiredError('key', 'key is required'))).toBeInstanceOf(ValidationError);
+    expect(toAerostackError(new FetchError(new TypeError('fetch failed'))).code).toBe('NETWORK_ERROR');
+    expect(toAerostackError(Object.assign(new Error('stop'), { name: 'AbortError' })).code).toBe('ABORTED');
+  });
+
+  it('should wrap non-Error values', () => {
+    const e = toAerostackError('weird');
+    expect(e.message).toBe('weird');
+    expect(e.code).toBe('UNKNOWN_ERROR');
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CacheApi, Configuration, QueueApi } from '../_generated/index.js';
+import { CassetteMismatchError, errorMiddleware, RateLimitExceededError } from '../errors.js';
+import { interceptClient } from '../operations.js';
+import { backoffDelay, parseRetryAfter, resolveRetryPolicy, retryCall, withRetry } from '../retry.js';
+import { requestInit } from '../transport.js';
+import { json } from './helpers.js';
+
+const policy = resolveRetryPolicy({ initialDelayMs: 10, jitter: 0 });
+
+function createApis(fetchImpl: ReturnType<typeof vi.fn>) {
+  const config = new Configuration({
+    basePath: 'https://api.test.com/v1',
+    fetchApi: withRetry(fetchImpl, policy),
+    middleware: [errorMiddleware],
+  });
+  return { cache: new CacheApi(config), queue: new QueueApi(config) };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('withRetry', () => {
+  it('should retry idempotent operations on 5xx', async () => {
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(json({ code: 'INTERNAL_ERROR', message: 'down' }, 503))
+      .mockResolvedValueOnce(json({ exists: true, value: 'v' }));
+    const { cache } = createApis(fetchImpl);
+
+    const pending = cache.cacheGet({ cacheGetRequest: { key: 'k' } });
+    await vi.runAllTimersAsync();
+
+    expect((await pending).value).toBe('v');
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry connection errors', async () => {
+    const fetchImpl = vi.fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(json({ exists: false }));
+    const { cache } = createApis(fetchImpl);
+
+    const pending = cache.cacheGet({ cacheGetRequest: { key: 'k' } });
+    await vi.runAllTimersAsync();
+
+    await pending;
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry SDK errors raised inside the pipeline', async () => {
+    const fetchImpl = vi.fn().mockRejectedValue(new CassetteMismatchError('no match'));
+    const { cache } = createApis(fetchImpl);
+
+    await expect(cache.cacheGet({ cacheGetRequest: { key: 'k' } })).rejects.toThrow(CassetteMismatchError);
+    expect(fetchImpl).toHaveBeenCalledOnce();
+  });
+
+  it('should not retry errors that are not connection failures', async () => {
+    const fetchImpl = vi.fn().mockRejectedValue(new Error('bug in a custom fetch'));
+    const { cache } = createApis(fetchImpl);
+
+    await expect(cache.cacheGet({ cacheGetRequest: { key: 'k' } })).rejects.toThrow();
+    expect(fetchImpl).toHaveBeenCalledOnce();
+  });
+
+  it('should give up after maxAttempts and surface the typed error', async () => {
+    const fetchImpl = vi.fn().mockImplementation(async () =>
+      json({ code: 'RATE_LIMIT_EXCEEDED', message: 'slow down' }, 429));
+    const { cache } = createApis(fetchImpl);
+
+    const pending = cache.cacheGet({ cacheGetRequest: { key: 'k' } }).catch(e => e);
+    await vi.runAllTimersAsync();
+
+    expect(await pending).toBeInstanceOf(RateLimitExceededError);
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry non-idempotent operations by default', async () => {
+    const fetchImpl = vi.fn().mockImplementation(async () => json({}, 503));
+    const { queue } = createApis(fetchImpl);
+
+    await expect(queue.queueEnqueue({ queueEnqueueRequest: { type: 'email', data: {} } })).rejects.toThrow();
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry non-idempotent operations when the call opts in', async () => {
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(json({}, 503))
+      .mockResolvedValueOnce(json({ jobId: 'job-1' }, 201));
+    const { queue } = createApis(fetchImpl);
+
+    const pending = queue.queueEnqueue({ queueEnqueueRequest: { type: 'email', data: {} } }, requestInit({ retry: true }));
+    await vi.runAllTimersAsync();
+
+    await pending;
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('should let a call disable retries', async () => {
+    const fetchImpl = vi.fn().mockImplementation(async () => json({}, 503));
+    const { cache } = createApis(fetchImpl);
+
+    await expect(cache.cacheGet({ cacheGetRequest: { key: 'k' } }, requestInit({ retry: false }))).rejects.toThrow();
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for Retry-After', async () => {
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(json({}, 429, { 'Retry-After': '2' }))
+      .mockResolvedValueOnce(json({ exists: false }));
+    const { cache } = createApis(fetchImpl);
+
+    const pending = cache.cacheGet({ cacheGetRequest: { key: 'k' } });
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(600);
+
+    await pending;
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not wait for a Retry-After longer than maxDelayMs', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(json({}, 429, { 'Retry-After': '3600' }));
+    const { cache } = createApis(fetchImpl);
+
+    await expect(cache.cacheGet({ cacheGetRequest: { key: 'k' } })).rejects.toBeInstanceOf(RateLimitExceededError);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('retryCall', () => {
+  it('should retry idempotent rpc methods through interceptClient', async () => {
+    const get = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('unavailable'), { status: 503 }))
+      .mockResolvedValueOnce('value');
+    const rpc = interceptClient({ cache: { get } }, (operation, call) => retryCall(operation, call, policy));
+
+    const pending = rpc.cache.get('k');
+    await vi.runAllTimersAsync();
+
+    expect(await pending).toBe('value');
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(get).toHaveBeenCalledWith('k');
+  });
+
+  it('should not retry non-idempotent rpc methods', async () => {
+    const enqueue = vi.fn().mockRejectedValue(Object.assign(new Error('unavailable'), { status: 503 }));
+    const rpc = interceptClient({ queue: { enqueue } }, (operation, call) => retryCall(operation, call, policy));
+
+    await expect(rpc.queue.enqueue({})).rejects.toThrow('unavailable');
+    expect(enqueue).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('helpers', () => {
+  it('should parse Retry-After seconds and dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(new Date(Date.now() + 5000).toUTCString())).toBeGreaterThan(3000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+
+  it('should grow the backoff exponentially up to maxDelayMs', () => {
+    const p = resolveRetryPolicy({ initialDelayMs: 100, maxDelayMs: 350, jitter: 0 })!;
+    expect(backoffDelay(1, p)).toBe(100);
+    expect(backoffDelay(2, p)).toBe(200);
+    expect(backoffDelay(3, p)).toBe(350);
+  });
+});
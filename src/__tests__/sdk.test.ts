@@ -46,6 +46,8 @@ vi.mock('../realtime.js', () => {
       connect: vi.fn(),
       disconnect: vi.fn(),
       channel: vi.fn(),
+      setApiKey: vi.fn(),
+      close: vi.fn().mockResolvedValue(undefined),
     })),
   };
 });
@@ -60,6 +62,8 @@ vi.mock('@aerostack/core', () => {
 });
 
 import { SDK, Aerostack, createClient } from '../sdk.js';
+import { AerostackClient } from '@aerostack/core';
+import { ClientClosedError } from '../errors.js';
 
 describe('SDK', () => {
   describe('constructor', () => {
@@ -167,7 +171,10 @@ describe('SDK', () => {
     it('should get many keys', async () => {
       const sdk = new SDK({ apiKey: 'key' });
       const result = await sdk.cache.getMany(['k1', 'k2']);
-      expect(result).toEqual([]);
+      expect(result).toEqual([
+        { key: 'k1', value: null, _exists: false },
+        { key: 'k2', value: null, _exists: false },
+      ]);
     });
 
     it('should set many entries', async () => {
@@ -190,6 +197,15 @@ describe('SDK', () => {
       await sdk.cache.expire('key', 300);
     });
 
+    it('should forward request options to the generated API', async () => {
+      const sdk = new SDK({ apiKey: 'key' });
+      const controller = new AbortController();
+      await sdk.cache.get('key', { signal: controller.signal, timeoutMs: 50 });
+      const cacheApi = (sdk.cache as any).api;
+      const init = cacheApi.cacheGet.mock.calls[0][1];
+      expect(init.signal).toBe(controller.signal);
+    });
+
     it('should increment a counter', async () => {
       const sdk = new SDK({ apiKey: 'key' });
       const result = await sdk.cache.increment('counter', 1, 0, 3600);
@@ -223,6 +239,97 @@ describe('SDK', () => {
       expect(sdk.auth).toBeDefined();
       expect(sdk.cache).toBeDefined();
     });
+
+    it('should keep projectId and update realtime', () => {
+      const sdk = new SDK({ apiKey: 'old-key', projectId: 'proj-1' });
+      const realtime = sdk.realtime;
+      sdk.setApiKey('new-key');
+      expect(vi.mocked(AerostackClient)).toHaveBeenLastCalledWith(expect.objectContaining({ apiKey: 'new-key', projectId: 'proj-1' }));
+      expect(realtime.setApiKey).toHaveBeenCalledWith('new-key');
+    });
+
+    it('should send the new key from streamGateway', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({ ok: true, body: createMockStream('data: [DONE]\n\n') });
+      vi.stubGlobal('fetch', mockFetch);
+      const sdk = new SDK({ apiKey: 'old-key' });
+      sdk.setApiKey('new-key');
+      await sdk.streamGateway({ apiSlug: 'bot', messages: [] });
+      expect(mockFetch.mock.calls[0]![1].headers['X-Aerostack-Key']).toBe('new-key');
+    });
+  });
+
+  describe('credentials', () => {
+    it('should resolve an async provider before the first rpc call', async () => {
+      const provider = vi.fn().mockResolvedValue('provided-key');
+      const sdk = new SDK({ credentials: provider, projectId: 'proj-1' });
+      await sdk.rpc.db.query('SELECT 1');
+      expect(provider).toHaveBeenCalledOnce();
+      expect(vi.mocked(AerostackClient)).toHaveBeenLastCalledWith(expect.objectContaining({ apiKey: 'provided-key', projectId: 'proj-1' }));
+    });
+
+    it('should refresh and replay an rpc call rejected with 401', async () => {
+      const provider = vi.fn().mockResolvedValueOnce('expired').mockResolvedValueOnce('fresh');
+      const query = vi.fn()
+        .mockRejectedValueOnce(Object.assign(new Error('Unauthorized'), { status: 401 }))
+        .mockResolvedValueOnce({ results: [] });
+      const original = vi.mocked(AerostackClient).getMockImplementation()!;
+      vi.mocked(AerostackClient).mockImplementation(() => ({ db: { query } }) as any);
+      try {
+        const sdk = new SDK({ credentials: provider });
+        void sdk.realtime;
+        await expect(sdk.rpc.db.query('SELECT 1')).resolves.toEqual({ results: [] });
+        expect(provider).toHaveBeenCalledTimes(2);
+        expect(sdk.realtime.setApiKey).toHaveBeenLastCalledWith('fresh');
+      } finally {
+        vi.mocked(AerostackClient).mockImplementation(original);
+      }
+    });
+  });
+
+  describe('forProject', () => {
+    it('should share the parent transport and scope rpc to the project', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({ ok: true, body: createMockStream('data: [DONE]\n\n') });
+      vi.stubGlobal('fetch', mockFetch);
+      const sdk = new SDK({ apiKey: 'root-key', serverUrl: 'https://api.test.com/v1' });
+      const tenant = sdk.forProject('proj-2', { apiKey: 'tenant-key' });
+
+      expect((tenant as any).middleware).toBe((sdk as any).middleware);
+      expect((tenant as any).retryPolicy).toBe((sdk as any).retryPolicy);
+      expect((tenant as any).logger).toBe((sdk as any).logger);
+      expect(vi.mocked(AerostackClient)).toHaveBeenLastCalledWith(expect.objectContaining({ apiKey: 'tenant-key', projectId: 'proj-2' }));
+
+      await tenant.streamGateway({ apiSlug: 'bot', messages: [] });
+      expect(mockFetch.mock.calls[0]![1].headers['X-Aerostack-Key']).toBe('tenant-key');
+    });
+
+    it('should cache clients per project and create realtime lazily', async () => {
+      const { NodeRealtimeClient } = await import('../realtime.js');
+      const sdk = new SDK({ apiKey: 'root-key' });
+      const before = vi.mocked(NodeRealtimeClient).mock.calls.length;
+      const tenant = sdk.forProject('proj-2', { apiKey: 'tenant-key' });
+
+      expect(sdk.forProject('proj-2')).toBe(tenant);
+      expect(vi.mocked(NodeRealtimeClient).mock.calls.length).toBe(before);
+      void tenant.realtime;
+      expect(vi.mocked(NodeRealtimeClient)).toHaveBeenLastCalledWith(expect.objectContaining({ projectId: 'proj-2', apiKey: 'tenant-key' }));
+    });
+
+    it('should disconnect realtime and drop the client on dispose', () => {
+      const sdk = new SDK({ apiKey: 'root-key' });
+      const tenant = sdk.forProject('proj-2', { apiKey: 'tenant-key' });
+      const realtime = tenant.realtime;
+
+      tenant.dispose();
+      expect(realtime.disconnect).toHaveBeenCalled();
+      expect(sdk.forProject('proj-2')).not.toBe(tenant);
+    });
+
+    it('should dispose project clients with the parent', () => {
+      const sdk = new SDK({ apiKey: 'root-key' });
+      const realtime = sdk.forProject('proj-2').realtime;
+      sdk.dispose();
+      expect(realtime.disconnect).toHaveBeenCalled();
+    });
   });
 
   describe('streamGateway', () => {
@@ -319,6 +426,20 @@ describe('SDK', () => {
       expect(doneResult.tokensUsed).toBe(10);
     });
 
+    it('should time out while waiting for the response headers', async () => {
+      const mockFetch = vi.fn().mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+      }));
+      vi.stubGlobal('fetch', mockFetch);
+
+      const sdk = new SDK({ serverUrl: 'https://api.test.com/v1', timeoutMs: 5000 });
+      await expect(sdk.streamGateway({
+        apiSlug: 'bot',
+        messages: [{ role: 'user', content: 'Hi' }],
+        timeoutMs: 10,
+      })).rejects.toMatchObject({ name: 'TimeoutError', timeoutMs: 10 });
+    });
+
     it('should throw on non-OK response', async () => {
       const mockFetch = vi.fn().mockResolvedValue({
         ok: false,
@@ -378,6 +499,63 @@ describe('SDK', () => {
     });
   });
 
+  describe('close', () => {
+    it('should wait for in-flight calls and reject new ones', async () => {
+      let respond!: (response: any) => void;
+      const mockFetch = vi.fn().mockImplementation(() => new Promise(resolve => { respond = resolve; }));
+      vi.stubGlobal('fetch', mockFetch);
+      const sdk = new SDK({ apiKey: 'key' });
+      const stream = sdk.streamGateway({ apiSlug: 'bot', messages: [] });
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalled());
+
+      let closed = false;
+      const closing = sdk.close().then(() => { closed = true; });
+      await expect(sdk.streamGateway({ apiSlug: 'bot', messages: [] })).rejects.toThrow(ClientClosedError);
+      await expect(sdk.rpc.db.query('SELECT 1')).rejects.toThrow(ClientClosedError);
+      expect(closed).toBe(false);
+
+      respond({ ok: true, body: createMockStream('data: [DONE]\n\n') });
+      await expect(stream).resolves.toEqual({ text: '', tokensUsed: 0 });
+      await closing;
+      expect(closed).toBe(true);
+    });
+
+    it('should abort calls still running after timeoutMs', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+      })));
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      const sdk = new SDK({ apiKey: 'key', logger });
+      const stream = sdk.streamGateway({ apiSlug: 'bot', messages: [] });
+
+      await sdk.close({ timeoutMs: 10 });
+
+      await expect(stream).rejects.toThrow(ClientClosedError);
+      expect(logger.warn).toHaveBeenCalledWith(expect.objectContaining({ inFlight: 1 }), 'Closing with requests still in flight');
+    });
+
+    it('should close realtime and project clients', async () => {
+      const sdk = new SDK({ apiKey: 'key', projectId: 'proj-1' });
+      const realtime = sdk.realtime;
+      const tenantRealtime = sdk.forProject('proj-2').realtime;
+
+      await sdk.close({ timeoutMs: 100 });
+
+      expect(realtime.close).toHaveBeenCalledWith({ timeoutMs: 100 });
+      expect(tenantRealtime.close).toHaveBeenCalledWith({ timeoutMs: 100 });
+      expect(() => sdk.realtime).toThrow(ClientClosedError);
+      expect(() => sdk.forProject('proj-3')).toThrow(ClientClosedError);
+    });
+
+    it('should close through Symbol.asyncDispose', async () => {
+      const sdk = new SDK({ apiKey: 'key' });
+      const realtime = sdk.realtime;
+      await sdk[Symbol.asyncDispose]();
+      expect(realtime.close).toHaveBeenCalled();
+      await expect(sdk.close()).resolves.toBeUndefined();
+    });
+  });
+
   describe('Aerostack alias', () => {
     it('should be the same as SDK', () => {
       expect(Aerostack).toBe(SDK);
@@ -389,6 +567,22 @@ describe('SDK', () => {
       const client = createClient({ apiKey: 'key' });
       expect(client).toBeInstanceOf(SDK);
     });
+
+    it('should return the Result-mode client when resultMode is set', async () => {
+      const client = createClient({ apiKey: 'key', resultMode: true });
+      const result = await client.cache.get('test-key');
+      expect(result).toEqual({ ok: true, value: 'cached' });
+    });
+  });
+
+  describe('safe', () => {
+    it('should return errors as results instead of throwing', async () => {
+      const sdk = new SDK({ apiKey: 'key' });
+      (sdk.cache as any).api.cacheGet.mockRejectedValueOnce(new Error('boom'));
+      const result = await sdk.safe.cache.get('key');
+      expect(result.ok).toBe(false);
+      expect(result.error?.message).toBe('boom');
+    });
   });
 });
 
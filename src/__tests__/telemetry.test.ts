@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { propagation, trace, SpanStatusCode, type TextMapPropagator } from '@opentelemetry/api';
+import { AIApi, CacheApi, Configuration, DatabaseApi } from '../_generated/index.js';
+import { errorMiddleware } from '../errors.js';
+import { NodeRealtimeClient } from '../realtime.js';
+import { createTelemetry, telemetryMiddleware, traceCall } from '../telemetry.js';
+import { json } from './helpers.js';
+
+class FakeSpan {
+  attributes: Record<string, unknown>;
+  status?: { code: SpanStatusCode; message?: string };
+  exceptions: unknown[] = [];
+  ended = false;
+
+  constructor(public name: string, attributes: Record<string, unknown> = {}, public id: number, public parentId?: string) {
+    this.attributes = { ...attributes };
+  }
+
+  spanContext() {
+    return { traceId: 'a'.repeat(32), spanId: String(this.id).padStart(16, '0'), traceFlags: 1 };
+  }
+  setAttribute(key: string, value: unknown) { this.attributes[key] = value; return this; }
+  setAttributes(attributes: Record<string, unknown>) { Object.assign(this.attributes, attributes); return this; }
+  setStatus(status: { code: SpanStatusCode; message?: string }) { this.status = status; return this; }
+  recordException(e: unknown) { this.exceptions.push(e); }
+  end() { this.ended = true; }
+}
+
+function fakeTelemetry() {
+  const spans: FakeSpan[] = [];
+  const tracer = {
+    startSpan: (name: string, options: any, ctx?: any) => {
+      const span = new FakeSpan(name, options?.attributes, spans.length + 1, ctx && trace.getSpanContext(ctx)?.spanId);
+      spans.push(span);
+      return span;
+    },
+  };
+  const durations: Array<[number, Record<string, unknown>]> = [];
+  const errors: Array<Record<string, unknown>> = [];
+  const meter = {
+    createHistogram: () => ({ record: (value: number, attributes: any) => durations.push([value, attributes]) }),
+    createCounter: () => ({ add: (_: number, attributes: any) => errors.push(attributes) }),
+  };
+  const telemetry = createTelemetry({ tracer: tracer as any, meter: meter as any });
+  return { telemetry, spans, durations, errors };
+}
+
+// Minimal W3C propagator so the test doesn't need @opentelemetry/core.
+const traceparentPropagator: TextMapPropagator = {
+  inject(ctx, carrier, setter) {
+    const sc = trace.getSpanContext(ctx);
+    if (sc) setter.set(carrier, 'traceparent', `00-${sc.traceId}-${sc.spanId}-01`);
+  },
+  extract(ctx, carrier, getter) {
+    const [, traceId, spanId] = String(getter.get(carrier, 'traceparent') ?? '').split('-');
+    return traceId && spanId ? trace.setSpanContext(ctx, { traceId, spanId, traceFlags: 1 }) : ctx;
+  },
+  fields: () => ['traceparent'],
+};
+
+beforeAll(() => {
+  propagation.setGlobalPropagator(traceparentPropagator);
+});
+
+afterAll(() => {
+  propagation.disable();
+});
+
+function config(response: Response, middleware: any) {
+  const fetchApi = vi.fn().mockResolvedValue(response);
+  return {
+    fetchApi,
+    config: new Configuration({ basePath: 'https://api.test.com/v1', fetchApi, middleware: [middleware, errorMiddleware] }),
+  };
+}
+
+describe('telemetryMiddleware', () => {
+  it('should name spans after the operation and attach the cache key', async () => {
+    const { telemetry, spans, durations } = fakeTelemetry();
+    const { config: c } = config(json({ value: 1, exists: true }), telemetryMiddleware(telemetry));
+    await new CacheApi(c).cacheGet({ cacheGetRequest: { key: 'user:1' } });
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0]!.name).toBe('cache.get');
+    expect(spans[0]!.attributes).toMatchObject({
+      'aerostack.cache.key': 'user:1',
+      'http.request.method': 'POST',
+      'http.response.status_code': 200,
+    });
+    expect(spans[0]!.ended).toBe(true);
+    expect(durations[0]![1]).toEqual({ 'aerostack.operation': 'cache.get' });
+  });
+
+  it('should attach the db statement', async () => {
+    const { telemetry, spans } = fakeTelemetry();
+    const { config: c } = config(json({ results: [] }), telemetryMiddleware(telemetry));
+    await new DatabaseApi(c).dbQuery({ dbQueryRequest: { sql: 'SELECT 1' } });
+
+    expect(spans[0]!.name).toBe('db.query');
+    expect(spans[0]!.attributes['db.statement']).toBe('SELECT 1');
+  });
+
+  it('should attach token usage for chat completions', async () => {
+    const { telemetry, spans } = fakeTelemetry();
+    const { config: c } = config(json({ choices: [], usage: { prompt_tokens: 5, completion_tokens: 7, total_tokens: 12 } }), telemetryMiddleware(telemetry));
+    await new AIApi(c).aiChat({ chatCompletionRequest: { messages: [{ role: 'user', content: 'hi' }] } });
+
+    expect(spans[0]!.name).toBe('ai.chat');
+    expect(spans[0]!.attributes).toMatchObject({ 'gen_ai.usage.input_tokens': 5, 'gen_ai.usage.output_tokens': 7 });
+  });
+
+  it('should inject a traceparent header for the span', async () => {
+    const { telemetry, spans } = fakeTelemetry();
+    const { config: c, fetchApi } = config(json({ success: true }), telemetryMiddleware(telemetry));
+    await new CacheApi(c).cacheDelete({ cacheGetRequest: { key: 'k' } });
+
+    const headers = fetchApi.mock.calls[0]![1].headers;
+    expect(headers.traceparent).toBe(`00-${'a'.repeat(32)}-${spans[0]!.spanContext().spanId}-01`);
+  });
+
+  it('should mark failed responses as errors and count them', async () => {
+    const { telemetry, spans, errors } = fakeTelemetry();
+    const { config: c } = config(json({ code: 'INTERNAL_ERROR', message: 'boom' }, 500), telemetryMiddleware(telemetry));
+    await expect(new CacheApi(c).cacheGet({ cacheGetRequest: { key: 'k' } })).rejects.toThrow('boom');
+
+    expect(spans[0]!.status?.code).toBe(SpanStatusCode.ERROR);
+    expect(spans[0]!.ended).toBe(true);
+    expect(errors).toEqual([{ 'aerostack.operation': 'cache.get', 'error.type': '500' }]);
+  });
+
+  it('should end the span when fetch fails', async () => {
+    const { telemetry, spans, errors } = fakeTelemetry();
+    const fetchApi = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+    const c = new Configuration({ basePath: 'https://api.test.com/v1', fetchApi, middleware: [telemetryMiddleware(telemetry), errorMiddleware] });
+    await expect(new CacheApi(c).cacheGet({ cacheGetRequest: { key: 'k' } })).rejects.toThrow();
+
+    expect(spans[0]!.ended).toBe(true);
+    expect(spans[0]!.exceptions).toHaveLength(1);
+    expect(errors[0]!['error.type']).toBe('TypeError');
+  });
+});
+
+describe('traceCall', () => {
+  it('should record errors and rethrow', async () => {
+    const { telemetry, spans } = fakeTelemetry();
+    await expect(traceCall(telemetry, 'realtime.connect', async () => { throw new Error('no socket'); })).rejects.toThrow('no socket');
+    expect(spans[0]!.name).toBe('realtime.connect');
+    expect(spans[0]!.status?.code).toBe(SpanStatusCode.ERROR);
+  });
+});
+
+describe('realtime', () => {
+  class FakeSocket {
+    static last: FakeSocket;
+    sent: any[] = [];
+    onopen: (() => void) | null = null;
+    onmessage: ((event: any) => void) | null = null;
+    onclose: (() => void) | null = null;
+    onerror: ((err: any) => void) | null = null;
+    constructor() { FakeSocket.last = this; setTimeout(() => this.onopen?.(), 0); }
+    send(data: string) { this.sent.push(JSON.parse(data)); }
+    close() { }
+  }
+
+  it('should keep the publish span open until the message is sent and link receivers to it', async () => {
+    const { telemetry, spans } = fakeTelemetry();
+    await telemetry.ready;
+    const client = new NodeRealtimeClient({ serverUrl: 'https://api.test.com/v1', projectId: 'proj-1', telemetry, webSocket: FakeSocket });
+    const channel = client.channel('room');
+    channel.publish('moved', { x: 1 });
+
+    const publish = spans.find(s => s.name === 'realtime.publish')!;
+    expect(publish.ended).toBe(false);
+
+    await client.connect();
+    expect(publish.ended).toBe(true);
+    const frame = FakeSocket.last.sent.find(m => m.type === 'publish');
+    expect(frame.trace.traceparent).toBe(`00-${'a'.repeat(32)}-${publish.spanContext().spanId}-01`);
+
+    const received = vi.fn();
+    channel.on('moved', received);
+    FakeSocket.last.onmessage!({ data: JSON.stringify({ type: 'event', topic: frame.topic, event: 'moved', data: { x: 1 }, trace: frame.trace }) });
+    expect(received).toHaveBeenCalledOnce();
+    const receive = spans.find(s => s.name === 'realtime.receive')!;
+    expect(receive.parentId).toBe(publish.spanContext().spanId);
+    expect(receive.ended).toBe(true);
+    client.disconnect();
+  });
+
+  it('should end a queued publish span with an error when the client disconnects', async () => {
+    const { telemetry, spans } = fakeTelemetry();
+    await telemetry.ready;
+    const client = new NodeRealtimeClient({ serverUrl: 'https://api.test.com/v1', projectId: 'proj-1', telemetry, webSocket: FakeSocket });
+    client.channel('room').publish('moved', {});
+    client.disconnect();
+    const publish = spans.find(s => s.name === 'realtime.publish')!;
+    expect(publish.ended).toBe(true);
+    expect(publish.status?.code).toBe(SpanStatusCode.ERROR);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CacheApi, Configuration, DatabaseApi } from '../_generated/index.js';
+import { errorMiddleware, TimeoutError } from '../errors.js';
+import { resolveRetryPolicy, withRetry } from '../retry.js';
+import { getRequestOptions, requestInit, withIdempotencyKey, withTimeout } from '../transport.js';
+
+// A fetch that never resolves unless its signal aborts
+function hangingFetch() {
+  return vi.fn().mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+    if (init.signal?.aborted) reject(init.signal.reason);
+    init.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+  }));
+}
+
+function createCache(fetchApi: any) {
+  return new CacheApi(new Configuration({
+    basePath: 'https://api.test.com/v1',
+    fetchApi,
+    middleware: [errorMiddleware],
+  }));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('requestInit', () => {
+  it('should carry options and the signal through initOverrides', () => {
+    const controller = new AbortController();
+    const init = requestInit({ signal: controller.signal, timeoutMs: 50 });
+    expect(init.signal).toBe(controller.signal);
+    expect(getRequestOptions({ ...init }).timeoutMs).toBe(50);
+    expect(getRequestOptions(undefined)).toEqual({});
+  });
+});
+
+describe('withTimeout', () => {
+  it('should reject with TimeoutError after the default timeout', async () => {
+    const cache = createCache(withTimeout(hangingFetch(), 100));
+
+    const pending = cache.cacheGet({ cacheGetRequest: { key: 'k' } }).catch(e => e);
+    await vi.advanceTimersByTimeAsync(100);
+
+    const err = await pending;
+    expect(err).toBeInstanceOf(TimeoutError);
+    expect(err.timeoutMs).toBe(100);
+  });
+
+  it('should let a call override the default timeout', async () => {
+    const cache = createCache(withTimeout(hangingFetch(), 10000));
+
+    const pending = cache.cacheGet({ cacheGetRequest: { key: 'k' } }, requestInit({ timeoutMs: 20 })).catch(e => e);
+    await vi.advanceTimersByTimeAsync(20);
+
+    expect(await pending).toBeInstanceOf(TimeoutError);
+  });
+
+  it('should cover retries within the same deadline', async () => {
+    const fetchImpl = vi.fn().mockImplementation(async () => new Response('{}', { status: 503 }));
+    const retrying = withRetry(fetchImpl, resolveRetryPolicy({ initialDelayMs: 1000, jitter: 0, maxAttempts: 5 }));
+    const cache = createCache(withTimeout(retrying, 1500));
+
+    const pending = cache.cacheGet({ cacheGetRequest: { key: 'k' } }).catch(e => e);
+    await vi.advanceTimersByTimeAsync(1500);
+
+    expect(await pending).toBeInstanceOf(TimeoutError);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('should surface caller aborts as AbortError, not TimeoutError', async () => {
+    const controller = new AbortController();
+    const cache = createCache(withTimeout(hangingFetch(), 1000));
+
+    const pending = cache.cacheGet({ cacheGetRequest: { key: 'k' } }, requestInit({ signal: controller.signal })).catch(e => e);
+    controller.abort();
+
+    const err = await pending;
+    expect(err).not.toBeInstanceOf(TimeoutError);
+    expect(err.name).toBe('AbortError');
+  });
+
+  it('should pass through when no timeout is configured', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(new Response('{"exists":false}', { status: 200, headers: { 'Content-Type': 'application/json' } }));
+    const cache = createCache(withTimeout(fetchImpl));
+
+    await cache.cacheGet({ cacheGetRequest: { key: 'k' } });
+    expect(fetchImpl.mock.calls[0]![1].signal).toBeUndefined();
+  });
+});
+
+describe('withIdempotencyKey', () => {
+  const ok = () => new Response('{"value":1}', { status: 200, headers: { 'Content-Type': 'application/json' } });
+  const keyOf = (call: any[]) => call[1].headers['Idempotency-Key'];
+
+  it('should send the same generated key on every retry', async () => {
+    const fetchImpl = vi.fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(ok());
+    const cache = createCache(withIdempotencyKey(withRetry(fetchImpl, resolveRetryPolicy({ initialDelayMs: 0, jitter: 0 }))));
+
+    const pending = cache.cacheIncrement({ cacheIncrementRequest: { key: 'k' } }, requestInit({ retry: true }));
+    await vi.runAllTimersAsync();
+    await pending;
+
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+    expect(keyOf(fetchImpl.mock.calls[0]!)).toMatch(/^[0-9a-f-]{36}$/);
+    expect(keyOf(fetchImpl.mock.calls[1]!)).toBe(keyOf(fetchImpl.mock.calls[0]!));
+  });
+
+  it('should generate a new key per logical call', async () => {
+    const fetchImpl = vi.fn().mockImplementation(async () => ok());
+    const cache = createCache(withIdempotencyKey(fetchImpl));
+
+    await cache.cacheIncrement({ cacheIncrementRequest: { key: 'k' } });
+    await cache.cacheIncrement({ cacheIncrementRequest: { key: 'k' } });
+    expect(keyOf(fetchImpl.mock.calls[0]!)).not.toBe(keyOf(fetchImpl.mock.calls[1]!));
+  });
+
+  it('should use the caller key, even for idempotent operations', async () => {
+    const fetchImpl = vi.fn().mockImplementation(async () => ok());
+    const cache = createCache(withIdempotencyKey(fetchImpl));
+
+    await cache.cacheIncrement({ cacheIncrementRequest: { key: 'k' } }, requestInit({ idempotencyKey: 'order-42' }));
+    await cache.cacheGet({ cacheGetRequest: { key: 'k' } }, requestInit({ idempotencyKey: 'read-1' }));
+    await cache.cacheGet({ cacheGetRequest: { key: 'k' } });
+
+    expect(keyOf(fetchImpl.mock.calls[0]!)).toBe('order-42');
+    expect(keyOf(fetchImpl.mock.calls[1]!)).toBe('read-1');
+    expect(keyOf(fetchImpl.mock.calls[2]!)).toBeUndefined();
+  });
+
+  it('should keep a key already set in the headers', async () => {
+    const fetchImpl = vi.fn().mockImplementation(async () => ok());
+    const cache = createCache(withIdempotencyKey(fetchImpl));
+
+    await cache.cacheIncrement({ cacheIncrementRequest: { key: 'k' } }, { headers: { 'Idempotency-Key': 'mine' } });
+    expect(keyOf(fetchImpl.mock.calls[0]!)).toBe('mine');
+  });
+
+  it('should use the xRequestID of a db query as its key', async () => {
+    const fetchImpl = vi.fn().mockImplementation(async () => new Response('{"results":[]}', { status: 200, headers: { 'Content-Type': 'application/json' } }));
+    const db = new DatabaseApi(new Configuration({ basePath: 'https://api.test.com/v1', fetchApi: withIdempotencyKey(fetchImpl) }));
+
+    await db.dbQuery({ dbQueryRequest: { sql: 'select 1' }, xRequestID: 'mine' });
+    await db.dbQuery({ dbQueryRequest: { sql: 'select 1' } });
+
+    expect(fetchImpl.mock.calls[0]![1].headers).toMatchObject({ 'Idempotency-Key': 'mine', 'X-Request-ID': 'mine' });
+    const generated = keyOf(fetchImpl.mock.calls[1]!);
+    expect(generated).toMatch(/^[0-9a-f-]{36}$/);
+    expect(fetchImpl.mock.calls[1]![1].headers['X-Request-ID']).toBe(generated);
+  });
+});
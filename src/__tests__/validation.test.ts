@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Configuration, QueueApi, StorageApi } from '../_generated/index.js';
+import { errorMiddleware, ResponseValidationError } from '../errors.js';
+import { JobRecordSchema } from '../schemas.js';
+import { validateResponseBody, validationMiddleware } from '../validation.js';
+import { json } from './helpers.js';
+
+function createQueue(body: any, middleware: any) {
+  const fetchApi = vi.fn().mockResolvedValue(json(body));
+  return new QueueApi(new Configuration({ basePath: 'https://api.test.com/v1', fetchApi, middleware: [errorMiddleware, middleware] }));
+}
+
+describe('schemas', () => {
+  it('should accept valid job records', () => {
+    expect(JobRecordSchema.safeParse({ id: 'j1', status: 'queued', createdAt: '2024-01-01T00:00:00Z' }).success).toBe(true);
+  });
+
+  it('should reject unknown job statuses', () => {
+    expect(JobRecordSchema.safeParse({ id: 'j1', status: 'exploded' }).success).toBe(false);
+  });
+
+  it('should treat null optional fields as absent', () => {
+    expect(validateResponseBody('cache.list', { keys: [], cursor: null })).toEqual([]);
+  });
+
+  it('should report the path of each mismatch', () => {
+    const issues = validateResponseBody('storage.list', { objects: [{ key: 'a', size: '12' }] });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]!.path).toBe('objects.0.size');
+  });
+
+  it('should skip operations without a schema', () => {
+    expect(validateResponseBody('storage.get', 'binary')).toEqual([]);
+  });
+});
+
+describe('validationMiddleware', () => {
+  const drifted = { job: { id: 'j1', status: 'exploded' }, exists: true };
+
+  it('should reject drifted responses in strict mode', async () => {
+    const queue = createQueue(drifted, validationMiddleware('strict'));
+
+    const err = await queue.queueGetJob({ queueGetJobRequest: { jobId: 'j1' } }).catch(e => e);
+    expect(err).toBeInstanceOf(ResponseValidationError);
+    expect(err.details.operation).toBe('queue.getJob');
+    expect(err.details.issues[0].path).toBe('job.status');
+  });
+
+  it('should warn and return the response in warn mode', async () => {
+    const warn = vi.fn();
+    const queue = createQueue(drifted, validationMiddleware('warn', warn));
+
+    const res = await queue.queueGetJob({ queueGetJobRequest: { jobId: 'j1' } });
+    expect(res.job?.id).toBe('j1');
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn.mock.calls[0]![0]).toContain('queue.getJob');
+  });
+
+  it('should do nothing when off', async () => {
+    const warn = vi.fn();
+    const queue = createQueue(drifted, validationMiddleware('off', warn));
+
+    await queue.queueGetJob({ queueGetJobRequest: { jobId: 'j1' } });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should pass valid responses in strict mode', async () => {
+    const fetchApi = vi.fn().mockResolvedValue(json({ objects: [{ key: 'a.txt', size: 3, etag: 'e1' }], truncated: false }));
+    const storage = new StorageApi(new Configuration({ fetchApi, middleware: [validationMiddleware('strict')] }));
+
+    const res = await storage.storageList({ storageListRequest: {} });
+    expect(res.objects?.[0]?.key).toBe('a.txt');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Connection settings for Node: keep-alive, connection limits, TLS and
+ * proxies, applied through an undici dispatcher.
+ *
+ * undici is an optional peer dependency, loaded only when `SDKOptions.agent`
+ * is set or a proxy is configured in the environment. Requests that use a
+ * dispatcher are sent with that package's own `fetch`, never Node's bundled
+ * one, so the dispatcher and the fetch always come from the same undici.
+ */
+
+import type { FetchAPI } from './_generated/runtime.js';
+import { ConfigurationError } from './errors.js';
+import type { Logger } from './logger.js';
+
+/** An undici `Dispatcher`: `Agent`, `Pool`, `ProxyAgent`, `MockAgent`, ... */
+export interface Dispatcher {
+    dispatch(options: any, handler: any): boolean;
+    close(): Promise<void>;
+}
+
+export interface AgentOptions {
+    /** Reuse connections between requests. Defaults to `true`. */
+    keepAlive?: boolean;
+    /** How long an idle connection is kept open, in ms. undici's default is 4s. */
+    keepAliveTimeoutMs?: number;
+    /** Requests sent on one connection before earlier responses arrive. Defaults to 1. */
+    pipelining?: number;
+    /** Maximum connections per origin. Unset means unlimited. */
+    maxSockets?: number;
+    /** Time allowed to establish a connection (TCP and TLS), in ms. */
+    connectTimeoutMs?: number;
+    /** Extra trusted CA certificates (PEM), e.g. for a TLS-inspecting proxy. */
+    ca?: string | Buffer | Array<string | Buffer>;
+    /**
+     * Proxy URL for every request. Defaults to `HTTPS_PROXY` / `HTTP_PROXY`
+     * from the environment, honouring `NO_PROXY`. `false` ignores the environment.
+     */
+    proxy?: string | false;
+}
+
+type WebSocketConstructor = new (url: string, protocols?: string[]) => any;
+
+const PROXY_ENV = ['HTTPS_PROXY', 'https_proxy', 'HTTP_PROXY', 'http_proxy'];
+
+function proxyInEnv(): boolean {
+    return typeof process !== 'undefined' && PROXY_ENV.some(name => !!process.env[name]);
+}
+
+async function loadUndici() {
+    try {
+        return await import('undici');
+    } catch (e) {
+        throw new ConfigurationError('Connection settings need the "undici" package. Install it with `npm install undici`.', {
+            code: 'MISSING_DEPENDENCY',
+            cause: e,
+        });
+    }
+}
+
+/** Build the undici dispatcher described by `options`. */
+export async function createDispatcher(options: AgentOptions = {}): Promise<Dispatcher> {
+    const undici = await loadUndici();
+    const connect = {
+        ...(options.connectTimeoutMs !== undefined && { timeout: options.connectTimeoutMs }),
+        ...(options.ca !== undefined && { ca: options.ca }),
+    };
+    const agentOptions = {
+        // undici disables keep-alive with `pipelining: 0`.
+        pipelining: options.keepAlive === false ? 0 : options.pipelining ?? 1,
+        ...(options.keepAliveTimeoutMs !== undefined && { keepAliveTimeout: options.keepAliveTimeoutMs }),
+        ...(options.maxSockets !== undefined && { connections: options.maxSockets }),
+        connect,
+    };
+    if (options.proxy) {
+        return new undici.ProxyAgent({ ...agentOptions, uri: options.proxy, requestTls: connect, proxyTls: connect });
+    }
+    if (options.proxy !== false && proxyInEnv()) return new undici.EnvHttpProxyAgent(agentOptions);
+    return new undici.Agent(agentOptions);
+}
+
+/**
+ * Shared dispatcher for one SDK client tree, created on first use. Without
+ * agent options, a dispatcher or proxy environment variables it does nothing.
+ */
+export class ConnectionPool {
+    private pending?: Promise<Dispatcher | undefined>;
+    private readonly owned: boolean;
+
+    constructor(
+        private options: { agent?: AgentOptions; dispatcher?: Dispatcher },
+        private logger: Logger,
+    ) {
+        this.owned = !options.dispatcher;
+    }
+
+    /** Whether requests need a dispatcher at all. */
+    get enabled(): boolean {
+        return !!this.options.dispatcher || !!this.options.agent || proxyInEnv();
+    }
+
+    dispatcher(): Promise<Dispatcher | undefined> {
+        if (this.options.dispatcher) return Promise.resolve(this.options.dispatcher);
+        this.pending ??= createDispatcher(this.options.agent).catch((e) => {
+            // Explicit settings must apply; a proxy picked up from the environment is best effort.
+            if (this.options.agent) throw e;
+            this.logger.warn({ error: e.message }, 'Ignoring proxy environment variables');
+            return undefined;
+        });
+        return this.pending;
+    }
+
+    /** `fetch` that sends every request through the dispatcher with undici's `fetch`; `fetchApi` is used when there is none. */
+    wrap(fetchApi: FetchAPI): FetchAPI {
+        return async (input, init) => {
+            const dispatcher = await this.dispatcher();
+            if (!dispatcher) return fetchApi(input, init);
+            const undici = await loadUndici();
+            return await undici.fetch(input as any, { ...init, dispatcher } as any) as unknown as Response;
+        };
+    }
+
+    /** undici's `WebSocket`, connecting through the dispatcher. */
+    async webSocket(): Promise<WebSocketConstructor | undefined> {
+        const dispatcher = await this.dispatcher();
+        if (!dispatcher) return undefined;
+        const { WebSocket } = await loadUndici();
+        return class extends WebSocket {
+            constructor(url: string, protocols?: string[]) {
+                super(url, { protocols, dispatcher: dispatcher as any });
+            }
+        };
+    }
+
+    /** Close the dispatcher's connections, unless it was supplied by the caller. */
+    async close(): Promise<void> {
+        if (!this.owned || !this.pending) return;
+        const dispatcher = await this.pending.catch(() => undefined);
+        await dispatcher?.close();
+    }
+}
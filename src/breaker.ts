@@ -0,0 +1,221 @@
+/**
+ * Per-service circuit breakers. When a service's failure rate crosses the
+ * threshold its circuit opens and calls fail fast with `CircuitOpenError`
+ * instead of waiting on a degraded backend. After a cooldown a few trial
+ * calls are let through (half-open); if they succeed the circuit closes.
+ */
+
+import type { FetchAPI } from './_generated/runtime.js';
+import { CircuitOpenError, TimeoutError } from './errors.js';
+import { operationFromUrl } from './operations.js';
+import type { LimitedService } from './ratelimit.js';
+import { isAbortError, isConnectionError, urlOf } from './utils.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface BreakerOptions {
+    /** Failure rate (0-1) over the window that opens the circuit. Defaults to 0.5. */
+    failureRateThreshold?: number;
+    /** Calls needed in the window before the failure rate is considered. Defaults to 10. */
+    minimumCalls?: number;
+    /** Length of the rolling window the failure rate is measured over, in ms. Defaults to 60s. */
+    windowMs?: number;
+    /** How long the circuit stays open before trial calls, in ms. Defaults to 30s. */
+    cooldownMs?: number;
+    /** Trial calls let through while half-open; all must succeed to close. Defaults to 1. */
+    halfOpenMaxCalls?: number;
+}
+
+export interface CircuitBreakerOptions extends BreakerOptions {
+    /** Settings for one service, over the defaults above. `false` disables its breaker. */
+    services?: Partial<Record<LimitedService, BreakerOptions | false>>;
+    /** Called on every state change, e.g. to shed load or alert. */
+    onStateChange?: (event: CircuitStateChange) => void;
+}
+
+export interface CircuitStateChange {
+    service: string;
+    from: CircuitState;
+    to: CircuitState;
+    /** Failure rate of the window that opened the circuit. */
+    failureRate?: number;
+}
+
+const DEFAULTS: Required<BreakerOptions> = {
+    failureRateThreshold: 0.5,
+    minimumCalls: 10,
+    windowMs: 60_000,
+    cooldownMs: 30_000,
+    halfOpenMaxCalls: 1,
+};
+
+// The window is kept as this many buckets so memory stays flat under load.
+const BUCKETS = 10;
+
+interface Bucket {
+    start: number;
+    calls: number;
+    failures: number;
+}
+
+/** Connection errors, timeouts and 5xx responses count as failures; client errors and aborts don't. */
+function isFailure(err: unknown, signal?: AbortSignal | null): boolean {
+    if (err instanceof TimeoutError || signal?.reason instanceof TimeoutError) return true;
+    if (isAbortError(err) || signal?.aborted) return false;
+    const status = (err as any)?.status ?? (err as any)?.response?.status;
+    if (typeof status === 'number') return status >= 500;
+    return isConnectionError(err);
+}
+
+/** The circuit of one service. */
+class Circuit {
+    state: CircuitState = 'closed';
+    private buckets: Bucket[] = [];
+    private openedAt = 0;
+    private trials = 0;
+    private trialSuccesses = 0;
+    private options: Required<BreakerOptions>;
+
+    constructor(
+        private service: string,
+        options: BreakerOptions,
+        private emit: (event: CircuitStateChange) => void,
+    ) {
+        this.options = { ...DEFAULTS, ...options };
+    }
+
+    /** Claim a slot for a call, or throw `CircuitOpenError`. */
+    admit(): void {
+        if (this.state === 'open') {
+            const retryAfterMs = this.openedAt + this.options.cooldownMs - Date.now();
+            if (retryAfterMs > 0) throw this.openError(retryAfterMs);
+            this.transition('half-open');
+        }
+        if (this.state === 'half-open') {
+            if (this.trials >= this.options.halfOpenMaxCalls) throw this.openError(0);
+            this.trials++;
+        }
+    }
+
+    record(failed: boolean): void {
+        if (this.state === 'half-open') {
+            if (failed) this.open();
+            else if (++this.trialSuccesses >= this.options.halfOpenMaxCalls) this.transition('closed');
+            return;
+        }
+        if (this.state === 'open') return;
+        const bucket = this.bucket();
+        bucket.calls++;
+        if (failed) bucket.failures++;
+        if (!failed) return;
+        let calls = 0;
+        let failures = 0;
+        for (const b of this.buckets) {
+            calls += b.calls;
+            failures += b.failures;
+        }
+        if (calls >= this.options.minimumCalls && failures / calls >= this.options.failureRateThreshold) {
+            this.open(failures / calls);
+        }
+    }
+
+    /** Release a slot claimed by `admit` without an outcome (e.g. the caller aborted). */
+    release(): void {
+        if (this.state === 'half-open') this.trials--;
+    }
+
+    private bucket(): Bucket {
+        const now = Date.now();
+        const size = this.options.windowMs / BUCKETS;
+        this.buckets = this.buckets.filter(b => now - b.start < this.options.windowMs);
+        const last = this.buckets[this.buckets.length - 1];
+        if (last && now - last.start < size) return last;
+        const bucket = { start: now, calls: 0, failures: 0 };
+        this.buckets.push(bucket);
+        return bucket;
+    }
+
+    private open(failureRate?: number): void {
+        this.openedAt = Date.now();
+        this.transition('open', failureRate);
+    }
+
+    private transition(to: CircuitState, failureRate?: number): void {
+        const from = this.state;
+        this.state = to;
+        this.buckets = [];
+        this.trials = 0;
+        this.trialSuccesses = 0;
+        this.emit({ service: this.service, from, to, ...(failureRate !== undefined && { failureRate }) });
+    }
+
+    private openError(retryAfterMs: number): CircuitOpenError {
+        return new CircuitOpenError(`Circuit for ${this.service} is open`, {
+            code: 'CIRCUIT_OPEN',
+            details: { service: this.service, retryAfterMs: Math.max(0, retryAfterMs) },
+        });
+    }
+}
+
+/** One circuit per service, created on first use. */
+export class CircuitBreaker {
+    private circuits = new Map<string, Circuit | null>();
+    private listeners = new Set<(event: CircuitStateChange) => void>();
+
+    constructor(private options: CircuitBreakerOptions) {
+        if (options.onStateChange) this.listeners.add(options.onStateChange);
+    }
+
+    /** Current state of `service`'s circuit. */
+    state(service: string): CircuitState {
+        return this.circuit(service)?.state ?? 'closed';
+    }
+
+    onStateChange(cb: (event: CircuitStateChange) => void): () => void {
+        this.listeners.add(cb);
+        return () => this.listeners.delete(cb);
+    }
+
+    /**
+     * Run `call` through `service`'s circuit. `failed` decides whether a
+     * result counts as a failure; thrown errors are classified by `isFailure`.
+     */
+    async run<T>(service: string, call: () => Promise<T>, failed?: (result: T) => boolean, signal?: AbortSignal | null): Promise<T> {
+        const circuit = this.circuit(service);
+        if (!circuit) return call();
+        circuit.admit();
+        let result: T;
+        try {
+            result = await call();
+        } catch (e) {
+            if (isFailure(e, signal)) circuit.record(true);
+            else if (isAbortError(e) || signal?.aborted) circuit.release();
+            else circuit.record(false);
+            throw e;
+        }
+        circuit.record(failed?.(result) ?? false);
+        return result;
+    }
+
+    private circuit(service: string): Circuit | null {
+        let circuit = this.circuits.get(service);
+        if (circuit === undefined) {
+            const scoped = this.options.services?.[service as LimitedService];
+            circuit = scoped === false ? null : new Circuit(service, { ...this.options, ...scoped }, (event) => {
+                this.listeners.forEach(cb => cb(event));
+            });
+            this.circuits.set(service, circuit);
+        }
+        return circuit;
+    }
+}
+
+/** Wrap a fetch implementation so every attempt goes through its service's circuit. */
+export function withCircuitBreaker(fetchApi: FetchAPI, breaker: CircuitBreaker): FetchAPI {
+    return (input, init) => breaker.run(
+        operationFromUrl(urlOf(input)).service,
+        () => fetchApi(input, init),
+        response => response.status >= 500,
+        init?.signal,
+    );
+}
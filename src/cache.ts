@@ -0,0 +1,384 @@
+/**
+ * Building blocks of `sdk.cache`: the in-process L1 tier, an LRU bounded by
+ * entry count and size and kept coherent across instances by invalidation
+ * messages on a realtime channel; typed views over a key prefix; and the
+ * chunking behind the bulk operations.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { CacheBulkError, ValidationError } from './errors.js';
+import type { Logger } from './logger.js';
+import type { NodeRealtimeClient, RealtimeSubscription } from './realtime.js';
+import type { RequestOptions } from './transport.js';
+import type { SDK } from './sdk.js';
+
+/** Most keys one call of each bulk operation accepts. */
+export const CACHE_BULK_LIMITS = { getMany: 100, setMany: 100, deleteMany: 500 } as const;
+
+export interface BulkOptions extends RequestOptions {
+    /** Chunks in flight at once when the input is over one call's limit. Defaults to 4. */
+    concurrency?: number;
+}
+
+const DEFAULT_BULK_CONCURRENCY = 4;
+
+/**
+ * @internal — Split `items` into chunks of `size` and run `call` on each,
+ * at most `options.concurrency` at a time. Resolves to the chunk results
+ * in input order. A lone chunk's error is rethrown as is; with several,
+ * failures reject with `CacheBulkError` whose `details.partial` is `merge`
+ * applied to the chunks that succeeded.
+ */
+export async function runChunked<I, R, M>(
+    operation: string,
+    items: I[],
+    size: number,
+    options: BulkOptions | undefined,
+    keyOf: (item: I) => string,
+    call: (chunk: I[]) => Promise<R>,
+    merge: (results: R[]) => M,
+): Promise<R[]> {
+    // An empty input still makes its one call, as the unchunked methods did.
+    const chunks: I[][] = items.length ? [] : [[]];
+    for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+    if (chunks.length <= 1) return Promise.all(chunks.map(call));
+
+    const results: R[] = new Array(chunks.length);
+    const failures: Array<{ index: number; keys: string[]; error: unknown }> = [];
+    let next = 0;
+    const worker = async () => {
+        while (next < chunks.length) {
+            const index = next++;
+            try {
+                results[index] = await call(chunks[index]!);
+            } catch (error) {
+                failures.push({ index, keys: chunks[index]!.map(keyOf), error });
+            }
+        }
+    };
+    const concurrency = Math.max(1, options?.concurrency ?? DEFAULT_BULK_CONCURRENCY);
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+    if (options?.signal?.aborted) throw options.signal.reason;
+    if (failures.length === 0) return results;
+
+    failures.sort((a, b) => a.index - b.index);
+    const failed = new Set(failures.map(failure => failure.index));
+    const failedKeys = failures.flatMap(failure => failure.keys);
+    throw new CacheBulkError(`${operation} failed for ${failedKeys.length} of ${items.length} keys`, {
+        code: 'CACHE_BULK_PARTIAL_FAILURE',
+        details: {
+            operation,
+            failedKeys,
+            failures: failures.map(({ keys, error }) => ({ keys, error })),
+            partial: merge(results.filter((_, index) => !failed.has(index))),
+        },
+        cause: failures[0]!.error,
+    });
+}
+
+export interface CacheScanOptions extends RequestOptions {
+    /** Only keys starting with this. */
+    prefix?: string;
+    /** Keys per `cacheList` call (max 1000). Defaults to 100. */
+    pageSize?: number;
+    /** Fetch each page's values with `getMany`. Keys that expire in between are skipped. */
+    withValues?: boolean;
+}
+
+export interface CacheScanEntry<T = any> {
+    key: string;
+    /** Expiry as epoch seconds, for keys with a TTL. */
+    expiration?: number;
+    /** Set with `withValues`. */
+    value?: T;
+}
+
+export interface LocalCacheOptions {
+    /** Most entries kept. Defaults to 1000. */
+    maxEntries?: number;
+    /** Most bytes kept, counting keys and JSON-serialized values. Defaults to 10 MB. */
+    maxBytes?: number;
+    /**
+     * Seconds an entry is served locally, capped by the TTL it was written
+     * with. Values read from the server (whose remote expiry is unknown) use
+     * this as is. Defaults to 60.
+     */
+    ttl?: number;
+    /**
+     * Realtime channel that carries invalidations between instances, or
+     * `false` to keep each instance's tier independent (entries then go
+     * stale for up to `ttl`). Defaults to `'cache/invalidate'`.
+     */
+    channel?: string | false;
+}
+
+/** Payload of an invalidation message. */
+export interface CacheInvalidation {
+    /** Id of the instance that sent it; its own messages are ignored. */
+    origin: string;
+    keys?: string[];
+    /** Evict every key with this prefix; `''` evicts everything. */
+    prefix?: string;
+}
+
+const DEFAULTS: Required<LocalCacheOptions> = {
+    maxEntries: 1000,
+    maxBytes: 10 * 1024 * 1024,
+    ttl: 60,
+    channel: 'cache/invalidate',
+};
+
+const INVALIDATE_EVENT = 'invalidate';
+
+interface Entry {
+    json: string;
+    size: number;
+    expiresAt: number;
+}
+
+/**
+ * LRU of cache values. Entries are stored serialized, so every hit returns
+ * a fresh copy. While the invalidation channel is not connected the tier is
+ * bypassed and emptied, since messages from other instances may be missed.
+ */
+export class LocalCache {
+    // Map iteration order doubles as recency order: oldest first.
+    private entries = new Map<string, Entry>();
+    private bytes = 0;
+    private options: Required<LocalCacheOptions>;
+    private readonly origin = randomUUID();
+    private subscription?: RealtimeSubscription<CacheInvalidation>;
+    private unsubscribeStatus?: () => void;
+    private realtimeClient?: NodeRealtimeClient;
+    private joined = false;
+    private closed = false;
+
+    constructor(options: LocalCacheOptions, private realtime: () => NodeRealtimeClient, private logger: Logger) {
+        this.options = { ...DEFAULTS, ...options };
+    }
+
+    /** Number of entries held. */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /** The cached value, or `undefined` on a miss. */
+    get(key: string): unknown {
+        if (!this.usable()) return undefined;
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt <= Date.now()) {
+            this.remove(key);
+            return undefined;
+        }
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return JSON.parse(entry.json);
+    }
+
+    /** Store a value for at most `ttl` seconds (the remote TTL), within the tier's own `ttl`. */
+    set(key: string, value: unknown, ttl?: number): void {
+        this.remove(key);
+        if (!this.usable() || value === null || value === undefined) return;
+        let json: string | undefined;
+        try {
+            json = JSON.stringify(value);
+        } catch {
+            return;
+        }
+        if (json === undefined) return;
+        const size = Buffer.byteLength(json) + Buffer.byteLength(key);
+        if (size > this.options.maxBytes) return;
+        const seconds = ttl !== undefined && ttl > 0 ? Math.min(ttl, this.options.ttl) : this.options.ttl;
+        this.entries.set(key, { json, size, expiresAt: Date.now() + seconds * 1000 });
+        this.bytes += size;
+        for (const [oldest] of this.entries) {
+            if (this.entries.size <= this.options.maxEntries && this.bytes <= this.options.maxBytes) break;
+            this.remove(oldest);
+        }
+    }
+
+    /** Evict `keys` here and on every other instance. */
+    invalidate(keys: string[]): void {
+        for (const key of keys) this.remove(key);
+        this.publish({ origin: this.origin, keys });
+    }
+
+    /** Evict every key starting with `prefix` here and on every other instance. */
+    invalidatePrefix(prefix: string): void {
+        this.evictPrefix(prefix);
+        this.publish({ origin: this.origin, prefix });
+    }
+
+    /** Drop every local entry. Other instances are not affected. */
+    clear(): void {
+        this.entries.clear();
+        this.bytes = 0;
+    }
+
+    /** Leave the invalidation channel and drop every entry. */
+    close(): void {
+        this.closed = true;
+        this.unsubscribeStatus?.();
+        this.subscription?.unsubscribe();
+        this.subscription = undefined;
+        this.clear();
+    }
+
+    private usable(): boolean {
+        if (this.closed) return false;
+        if (this.options.channel === false) return true;
+        this.join();
+        return this.realtimeClient?.connected ?? false;
+    }
+
+    /** Subscribe to the invalidation channel on first use. */
+    private join(): void {
+        if (this.joined) return;
+        this.joined = true;
+        try {
+            this.realtimeClient = this.realtime();
+        } catch (e) {
+            this.logger.warn({ error: (e as Error)?.message ?? e }, 'Local cache disabled: realtime unavailable');
+            return;
+        }
+        this.unsubscribeStatus = this.realtimeClient.onStatusChange((status) => {
+            if (status !== 'connected') this.clear();
+        });
+        this.subscription = this.realtimeClient.channel<CacheInvalidation>(this.options.channel as string)
+            .on(INVALIDATE_EVENT, payload => this.apply(payload.data))
+            .subscribe();
+        this.realtimeClient.connect().catch((e) => {
+            this.logger.warn({ error: e?.message ?? e }, 'Local cache bypassed: invalidation channel unavailable');
+        });
+    }
+
+    private publish(message: CacheInvalidation): void {
+        if (this.closed || this.options.channel === false) return;
+        this.join();
+        this.subscription?.publish(INVALIDATE_EVENT, message);
+    }
+
+    private apply(message: CacheInvalidation | undefined): void {
+        if (!message || message.origin === this.origin) return;
+        for (const key of message.keys ?? []) this.remove(key);
+        if (message.prefix !== undefined) this.evictPrefix(message.prefix);
+    }
+
+    private evictPrefix(prefix: string): void {
+        if (!prefix) {
+            this.clear();
+            return;
+        }
+        for (const key of [...this.entries.keys()]) {
+            if (key.startsWith(prefix)) this.remove(key);
+        }
+    }
+
+    private remove(key: string): void {
+        const entry = this.entries.get(key);
+        if (!entry) return;
+        this.entries.delete(key);
+        this.bytes -= entry.size;
+    }
+}
+
+/** What `namespace` needs of a schema; any zod 3 or zod 4 schema fits. */
+export interface CacheSchema<T> {
+    safeParse(value: unknown):
+        | { success: true; data: T }
+        | { success: false; error: { issues: ReadonlyArray<{ path: ReadonlyArray<PropertyKey>; message: string }> } };
+}
+
+export interface CacheNamespaceOptions<T> {
+    /** Checked on every read and write; the parsed value is what gets stored and returned. */
+    schema?: CacheSchema<T>;
+    /** TTL in seconds for `set`/`setMany` calls that don't pass one. */
+    defaultTtl?: number;
+}
+
+/** A `getMany` result with the namespace prefix stripped from `key`. */
+export interface CacheNamespaceEntry<T> {
+    key: string;
+    value: T | null;
+    _exists: boolean;
+}
+
+/**
+ * `sdk.cache` scoped to keys starting with `prefix`, from
+ * `sdk.cache.namespace()`. Keys passed in and returned are relative to the
+ * prefix. Values that fail the schema throw `ValidationError` with code
+ * `CACHE_SCHEMA_MISMATCH`.
+ */
+export class CacheNamespace<T = any> {
+    constructor(
+        private cache: SDK['cache'],
+        readonly prefix: string,
+        private options: CacheNamespaceOptions<T> = {},
+    ) { }
+
+    async get(key: string, options?: RequestOptions): Promise<T | null> {
+        const value = await this.cache.get(this.prefix + key, options);
+        return value === null ? null : this.parse(key, value, 'read');
+    }
+
+    async set(key: string, value: T, ttl = this.options.defaultTtl, options?: RequestOptions): Promise<void> {
+        await this.cache.set(this.prefix + key, this.parse(key, value, 'write'), ttl, options);
+    }
+
+    async delete(key: string, options?: RequestOptions): Promise<void> {
+        await this.cache.delete(this.prefix + key, options);
+    }
+
+    async exists(key: string, options?: RequestOptions): Promise<boolean> {
+        return this.cache.exists(this.prefix + key, options);
+    }
+
+    /** Results come back in the order of `keys`. */
+    async getMany(keys: string[], options?: BulkOptions): Promise<CacheNamespaceEntry<T>[]> {
+        const results = await this.cache.getMany(keys.map(key => this.prefix + key), options);
+        const byKey = new Map(results.map(entry => [entry.key, entry]));
+        return keys.map((key) => {
+            const entry = byKey.get(this.prefix + key);
+            const hit = entry?._exists ?? (entry?.value !== null && entry?.value !== undefined);
+            return hit
+                ? { key, value: this.parse(key, entry!.value, 'read'), _exists: true }
+                : { key, value: null, _exists: false };
+        });
+    }
+
+    async setMany(entries: Array<{ key: string; value: T; ttl?: number }>, options?: BulkOptions) {
+        return this.cache.setMany(entries.map((entry) => {
+            const ttl = entry.ttl ?? this.options.defaultTtl;
+            return {
+                key: this.prefix + entry.key,
+                value: this.parse(entry.key, entry.value, 'write'),
+                ...(ttl !== undefined && { ttl }),
+            };
+        }), options);
+    }
+
+    /** Keys in the namespace, without the prefix (hard cap 10k). */
+    async keys(options?: RequestOptions): Promise<string[]> {
+        const keys = await this.cache.keys(this.prefix, options);
+        return keys.map(key => key.slice(this.prefix.length));
+    }
+
+    /** Delete every key in the namespace (hard cap 10k). */
+    async flush(options?: RequestOptions) {
+        return this.cache.flush(this.prefix, options);
+    }
+
+    private parse(key: string, value: unknown, direction: 'read' | 'write'): T {
+        if (!this.options.schema) return value as T;
+        const result = this.options.schema.safeParse(value);
+        if (result.success) return result.data;
+        const issues = result.error.issues.map(issue => ({ path: issue.path.map(String).join('.') || '(root)', message: issue.message }));
+        const list = issues.slice(0, 5).map(i => `${i.path}: ${i.message}`).join('; ');
+        const what = direction === 'read' ? 'Cached value' : 'Value';
+        throw new ValidationError(`${what} for ${this.prefix + key} does not match the schema: ${list}`, {
+            code: 'CACHE_SCHEMA_MISMATCH',
+            details: { key: this.prefix + key, direction, issues },
+        });
+    }
+}
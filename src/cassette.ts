@@ -0,0 +1,254 @@
+/**
+ * HTTP record/replay for integration tests.
+ *
+ * A `Cassette` is a fetch implementation: pass `cassette.fetch` as
+ * `SDKOptions.fetchApi`. In `'record'` mode requests go to the real API and
+ * each request/response pair (SSE streams included) is kept, with secrets
+ * scrubbed, until `save()` writes them to a JSON file. In `'replay'` mode
+ * responses come from that file and a request with no recorded match throws
+ * `CassetteMismatchError`. Realtime WebSocket traffic is not recorded.
+ *
+ * @example
+ * const cassette = await Cassette.open({ path: 'test/cassettes/cache.json', mode: process.env.RECORD ? 'record' : 'replay' });
+ * const sdk = new SDK({ apiKey, fetchApi: cassette.fetch });
+ * // ...
+ * await cassette.save();
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { FetchAPI } from './_generated/runtime.js';
+import { CassetteMismatchError } from './errors.js';
+import { urlOf } from './utils.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteRequest {
+    method: string;
+    url: string;
+    /** Lower-cased header names. */
+    headers: Record<string, string>;
+    body?: string;
+}
+
+export interface CassetteResponse {
+    status: number;
+    statusText?: string;
+    headers: Record<string, string>;
+    body?: string;
+    /** `'base64'` for binary bodies (e.g. `storage.get`); text otherwise. */
+    encoding?: 'utf8' | 'base64';
+}
+
+export interface CassetteInteraction {
+    request: CassetteRequest;
+    response: CassetteResponse;
+}
+
+/** Which parts of a request must equal the recorded one in replay mode. The method always must. */
+export interface CassetteMatchers {
+    /**
+     * Compare path and query (host is ignored). `false` matches any path.
+     * Defaults to `true`.
+     */
+    path?: boolean | ((recorded: URL, actual: URL) => boolean);
+    /**
+     * Compare bodies; JSON bodies are compared structurally. `false` matches
+     * any body. Defaults to `true`.
+     */
+    body?: boolean | ((recorded: string | undefined, actual: string | undefined) => boolean);
+    /** Header names whose (scrubbed) values must match. Defaults to none. */
+    headers?: string[];
+}
+
+export interface CassetteOptions {
+    /** JSON cassette file. */
+    path: string;
+    mode: CassetteMode;
+    match?: CassetteMatchers;
+    /** Extra headers to scrub, on top of API keys, `Authorization` and cookies. */
+    scrubHeaders?: string[];
+    /** Extra JSON body fields to scrub, on top of passwords, tokens and secrets. */
+    scrubFields?: string[];
+    /** Last scrubbing pass over each request; also applied before matching in replay. */
+    scrubRequest?: (request: CassetteRequest) => CassetteRequest;
+    /** Last scrubbing pass over each recorded response. */
+    scrubResponse?: (response: CassetteResponse) => CassetteResponse;
+    /** Transport used while recording. Defaults to the global `fetch`. */
+    fetchApi?: FetchAPI;
+}
+
+const SCRUBBED = '[SCRUBBED]';
+const SCRUB_HEADERS = ['x-aerostack-key', 'authorization', 'proxy-authorization', 'cookie', 'set-cookie'];
+const SCRUB_FIELDS = ['password', 'token', 'accessToken', 'refreshToken', 'apiKey', 'secret'];
+const TEXT_CONTENT = /json|text|event-stream|xml|urlencoded/i;
+
+function canonicalJson(text: string | undefined): string | undefined {
+    if (text === undefined) return undefined;
+    try {
+        return JSON.stringify(JSON.parse(text), (_key, value) =>
+            value && typeof value === 'object' && !Array.isArray(value)
+                ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+                : value);
+    } catch {
+        return text;
+    }
+}
+
+function canonicalUrl(url: URL): string {
+    const params = [...url.searchParams].sort(([a], [b]) => a.localeCompare(b));
+    return url.pathname + (params.length ? `?${new URLSearchParams(params)}` : '');
+}
+
+async function requestBody(body: RequestInit['body']): Promise<string | undefined> {
+    if (body === undefined || body === null) return undefined;
+    if (typeof body === 'string') return body;
+    if (body instanceof URLSearchParams) return body.toString();
+    if (body instanceof FormData) {
+        const fields: Record<string, string> = {};
+        for (const [name, value] of body.entries()) {
+            fields[name] = typeof value === 'string' ? value : `<file ${value.size} bytes>`;
+        }
+        return JSON.stringify(fields);
+    }
+    if (body instanceof Blob) return `<blob ${body.size} bytes>`;
+    return '<stream>';
+}
+
+export class Cassette {
+    readonly path: string;
+    readonly mode: CassetteMode;
+    /** Recorded interactions, in request order. */
+    readonly interactions: CassetteInteraction[] = [];
+    private used = new Set<number>();
+    private recording: Promise<void>[] = [];
+    private options: CassetteOptions;
+    private scrubHeaderNames: Set<string>;
+    private scrubFieldNames: Set<string>;
+
+    constructor(options: CassetteOptions) {
+        this.options = options;
+        this.path = options.path;
+        this.mode = options.mode;
+        this.scrubHeaderNames = new Set([...SCRUB_HEADERS, ...(options.scrubHeaders ?? [])].map(h => h.toLowerCase()));
+        this.scrubFieldNames = new Set([...SCRUB_FIELDS, ...(options.scrubFields ?? [])].map(f => f.toLowerCase()));
+    }
+
+    /** Create a cassette, loading its file in replay mode. */
+    static async open(options: CassetteOptions): Promise<Cassette> {
+        const cassette = new Cassette(options);
+        if (options.mode === 'replay') {
+            const file = JSON.parse(await readFile(options.path, 'utf8'));
+            cassette.interactions.push(...(file.interactions ?? []));
+        }
+        return cassette;
+    }
+
+    /** Fetch implementation that records or replays. */
+    fetch: FetchAPI = async (input, init) => {
+        const request = await this.captureRequest(urlOf(input), init);
+        return this.mode === 'record' ? this.record(request, input, init) : this.replay(request);
+    };
+
+    /** Wait for streamed bodies to finish and write the cassette file (record mode only). */
+    async save(): Promise<void> {
+        if (this.mode !== 'record') return;
+        await Promise.all(this.recording);
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(this.path, JSON.stringify({ version: 1, interactions: this.interactions }, null, 2) + '\n');
+    }
+
+    /** Recorded interactions no request has replayed yet. */
+    get unused(): CassetteInteraction[] {
+        return this.interactions.filter((_, i) => !this.used.has(i));
+    }
+
+    private async record(request: CassetteRequest, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+        const response = await (this.options.fetchApi ?? fetch)(input, init);
+        const interaction: CassetteInteraction = {
+            request,
+            response: { status: response.status, statusText: response.statusText || undefined, headers: this.scrubHeaders(response.headers) },
+        };
+        this.interactions.push(interaction);
+        if (!response.body) {
+            interaction.response = this.scrubResponse(interaction.response);
+            return response;
+        }
+
+        // Tee the body so SSE streams reach the caller as they arrive while the tape copy is read.
+        const [forCaller, forTape] = response.body.tee();
+        const binary = !TEXT_CONTENT.test(response.headers.get('Content-Type') ?? 'text/plain');
+        this.recording.push(new Response(forTape).arrayBuffer().then(buffer => {
+            interaction.response = this.scrubResponse(binary
+                ? { ...interaction.response, body: Buffer.from(buffer).toString('base64'), encoding: 'base64' }
+                : { ...interaction.response, body: this.scrubBody(new TextDecoder().decode(buffer)) });
+        }));
+        return new Response(forCaller, { status: response.status, statusText: response.statusText, headers: response.headers });
+    }
+
+    private replay(request: CassetteRequest): Response {
+        const index = this.interactions.findIndex((interaction, i) => !this.used.has(i) && this.matches(interaction.request, request));
+        if (index === -1) {
+            throw new CassetteMismatchError(
+                `No recorded interaction in ${this.path} matches ${request.method} ${request.url}`,
+                { code: 'CASSETTE_MISMATCH', details: { request, unused: this.unused.map(i => `${i.request.method} ${i.request.url}`) } },
+            );
+        }
+        this.used.add(index);
+        const { status, statusText, headers, body, encoding } = this.interactions[index]!.response;
+        const payload = body === undefined ? null : encoding === 'base64' ? Buffer.from(body, 'base64') : body;
+        return new Response(payload, { status, statusText, headers });
+    }
+
+    private matches(recorded: CassetteRequest, actual: CassetteRequest): boolean {
+        const { path = true, body = true, headers = [] } = this.options.match ?? {};
+        if (recorded.method !== actual.method) return false;
+        if (path) {
+            const [a, b] = [new URL(recorded.url), new URL(actual.url)];
+            if (typeof path === 'function' ? !path(a, b) : canonicalUrl(a) !== canonicalUrl(b)) return false;
+        }
+        if (body) {
+            if (typeof body === 'function' ? !body(recorded.body, actual.body) : canonicalJson(recorded.body) !== canonicalJson(actual.body)) {
+                return false;
+            }
+        }
+        return headers.every(name => recorded.headers[name.toLowerCase()] === actual.headers[name.toLowerCase()]);
+    }
+
+    private async captureRequest(url: string, init?: RequestInit): Promise<CassetteRequest> {
+        const body = await requestBody(init?.body);
+        const request: CassetteRequest = {
+            method: (init?.method ?? 'GET').toUpperCase(),
+            url,
+            headers: this.scrubHeaders(new Headers(init?.headers)),
+            ...(body !== undefined && { body: this.scrubBody(body) }),
+        };
+        return this.options.scrubRequest ? this.options.scrubRequest(request) : request;
+    }
+
+    private scrubResponse(response: CassetteResponse): CassetteResponse {
+        return this.options.scrubResponse ? this.options.scrubResponse(response) : response;
+    }
+
+    private scrubHeaders(headers: Headers): Record<string, string> {
+        const out: Record<string, string> = {};
+        headers.forEach((value, name) => {
+            out[name] = this.scrubHeaderNames.has(name) ? SCRUBBED : value;
+        });
+        return out;
+    }
+
+    /** Replace secret fields in a JSON body, or in each `data:` line of an SSE body. */
+    private scrubBody(text: string): string {
+        const scrubJson = (json: string) => {
+            try {
+                return JSON.stringify(JSON.parse(json), (key, value) =>
+                    this.scrubFieldNames.has(key.toLowerCase()) && value !== null && typeof value !== 'object' ? SCRUBBED : value);
+            } catch {
+                return json;
+            }
+        };
+        if (!text.startsWith('data:')) return scrubJson(text);
+        return text.replace(/^data: (.+)$/gm, (_line, payload: string) => `data: ${scrubJson(payload)}`);
+    }
+}
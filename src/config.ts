@@ -0,0 +1,126 @@
+/**
+ * Client configuration from environment variables and named profiles in
+ * `~/.aerostack/config`, validated before the client is built.
+ *
+ * The config file is INI-style, one section per profile:
+ *
+ * ```ini
+ * [default]
+ * api_key = sk_live_...
+ * project_id = proj_123
+ *
+ * [staging]
+ * api_key = sk_test_...
+ * server_url = https://staging.api.aerostack.dev/v1
+ * project_id = proj_456
+ * ```
+ */
+
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { ConfigurationError } from './errors.js';
+
+export interface ProfileConfig {
+    apiKey?: string;
+    serverUrl?: string;
+    projectId?: string;
+}
+
+export interface LoadConfigOptions {
+    /** Profile to read. Defaults to `AEROSTACK_PROFILE`, then `default`. */
+    profile?: string;
+    /** Config file path. Defaults to `AEROSTACK_CONFIG_FILE`, then `~/.aerostack/config`. */
+    configFile?: string;
+    /** Environment to read. Defaults to `process.env`. */
+    env?: Record<string, string | undefined>;
+}
+
+const PROFILE_KEYS: Record<string, keyof ProfileConfig> = {
+    api_key: 'apiKey',
+    server_url: 'serverUrl',
+    project_id: 'projectId',
+};
+
+// Where each setting can come from, for error messages.
+const SOURCES: Record<string, string> = {
+    apiKey: 'AEROSTACK_API_KEY or api_key',
+    serverUrl: 'AEROSTACK_SERVER_URL or server_url',
+    projectId: 'AEROSTACK_PROJECT_ID or project_id',
+};
+
+export const ClientConfigSchema = z.object({
+    apiKey: z.string().min(1),
+    serverUrl: z.string().url().optional(),
+    projectId: z.string().min(1),
+});
+
+/** Parse an INI-style config file into profiles. `[profile name]` is accepted as well as `[name]`. */
+export function parseProfiles(text: string): Record<string, ProfileConfig> {
+    const profiles: Record<string, ProfileConfig> = {};
+    let current: ProfileConfig | undefined;
+    for (const raw of text.split(/\r?\n/)) {
+        const line = raw.trim();
+        if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+        const section = /^\[\s*(?:profile\s+)?([^\]]+?)\s*\]$/.exec(line);
+        if (section) {
+            current = profiles[section[1]!] ??= {};
+            continue;
+        }
+        const eq = line.indexOf('=');
+        if (eq === -1 || !current) continue;
+        const key = PROFILE_KEYS[line.slice(0, eq).trim().toLowerCase()];
+        const value = line.slice(eq + 1).trim().replace(/^(["'])(.*)\1$/, '$2');
+        if (key && value) current[key] = value;
+    }
+    return profiles;
+}
+
+function readProfile(options: LoadConfigOptions, env: Record<string, string | undefined>): ProfileConfig {
+    const explicit = options.profile ?? env['AEROSTACK_PROFILE'];
+    const name = explicit ?? 'default';
+    const path = options.configFile ?? env['AEROSTACK_CONFIG_FILE'] ?? join(homedir(), '.aerostack', 'config');
+    let text: string;
+    try {
+        text = readFileSync(path, 'utf8');
+    } catch (e) {
+        if ((e as any)?.code !== 'ENOENT' || explicit !== undefined) {
+            throw new ConfigurationError(`Could not read Aerostack profile "${name}" from ${path}: ${(e as Error).message}`, {
+                code: 'INVALID_CONFIG',
+                cause: e,
+            });
+        }
+        return {};
+    }
+    const profile = parseProfiles(text)[name];
+    if (!profile && explicit !== undefined) {
+        throw new ConfigurationError(`Aerostack profile "${name}" not found in ${path}`, { code: 'INVALID_CONFIG' });
+    }
+    return profile ?? {};
+}
+
+/**
+ * Merge settings, highest precedence first: `overrides`, `AEROSTACK_*`
+ * environment variables, then the selected profile. Throws
+ * `ConfigurationError` if the API key or project id is missing or a value
+ * is malformed.
+ */
+export function loadConfig(options: LoadConfigOptions = {}, overrides: ProfileConfig & { credentials?: unknown } = {}): ProfileConfig {
+    const env = options.env ?? process.env;
+    const profile = readProfile(options, env);
+    const merged: ProfileConfig = {
+        apiKey: overrides.apiKey ?? (env['AEROSTACK_API_KEY'] || undefined) ?? profile.apiKey,
+        serverUrl: overrides.serverUrl ?? (env['AEROSTACK_SERVER_URL'] || undefined) ?? profile.serverUrl,
+        projectId: overrides.projectId ?? (env['AEROSTACK_PROJECT_ID'] || undefined) ?? profile.projectId,
+    };
+    // `credentials` supplies the key instead.
+    const schema = overrides.credentials === undefined ? ClientConfigSchema : ClientConfigSchema.partial({ apiKey: true });
+    const result = schema.safeParse(merged);
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => ({ path: issue.path.map(String).join('.'), message: issue.message }));
+        const list = issues.map(i => `${i.path}: ${i.message}${SOURCES[i.path] ? ` (set ${SOURCES[i.path]})` : ''}`).join('; ');
+        throw new ConfigurationError(`Invalid Aerostack configuration: ${list}`, { code: 'INVALID_CONFIG', details: { issues } });
+    }
+    return merged;
+}
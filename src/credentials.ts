@@ -0,0 +1,171 @@
+/**
+ * API key resolution and rotation.
+ *
+ * Every transport reads the key from one `Credentials` instance, so a
+ * rotation (`setApiKey`, provider refresh on expiry or 401) reaches the
+ * generated APIs, `sdk.rpc`, `streamGateway` and realtime together.
+ */
+
+import type { FetchAPI } from './_generated/runtime.js';
+import { AerostackError, AuthInvalidCredentialsError, AuthInvalidKeyError } from './errors.js';
+
+/** A key with an optional expiry, as returned by a credential provider. */
+export interface Credential {
+    apiKey: string;
+    /** When the key stops working. The provider is called again shortly before. */
+    expiresAt?: Date | number;
+}
+
+export type CredentialProvider = () => string | Credential | Promise<string | Credential>;
+
+/**
+ * Where the SDK gets its API key:
+ * - a static key string,
+ * - `{ env: 'NAME' }` to read an environment variable (re-read after a 401),
+ * - an async provider, re-invoked when the key expires or is rejected with 401.
+ */
+export type CredentialsOption = string | { env: string } | CredentialProvider;
+
+const API_KEY_HEADER = 'X-Aerostack-Key';
+// Refresh this long (at most half the key's lifetime) before `expiresAt`.
+const EXPIRY_SKEW_MS = 30_000;
+
+function readEnv(name: string): string {
+    const value = typeof process !== 'undefined' ? process.env[name] : undefined;
+    if (!value) {
+        throw new AuthInvalidKeyError(`Environment variable ${name} is not set`, { code: 'AUTH_INVALID_KEY' });
+    }
+    return value;
+}
+
+export class Credentials {
+    private apiKey?: string;
+    private refreshAt?: number;
+    private provider?: CredentialProvider;
+    private pending: Promise<string | undefined> | null = null;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private listeners: Set<(apiKey: string | undefined) => void> = new Set();
+
+    constructor(source?: CredentialsOption) {
+        if (typeof source === 'string') {
+            this.apiKey = source;
+        } else if (typeof source === 'function') {
+            this.provider = source;
+        } else if (source) {
+            const name = source.env;
+            this.apiKey = readEnv(name);
+            this.provider = () => readEnv(name);
+        }
+    }
+
+    /** The last resolved key, without calling the provider. */
+    get current(): string | undefined {
+        return this.apiKey;
+    }
+
+    /** Whether `refresh` can produce a different key. */
+    get refreshable(): boolean {
+        return this.provider !== undefined;
+    }
+
+    /** Current key, calling the provider first if there is none yet or it has expired. */
+    async get(): Promise<string | undefined> {
+        if (this.provider && (this.apiKey === undefined || this.isExpired())) return this.refresh();
+        return this.apiKey;
+    }
+
+    /**
+     * Call the provider for a new key. Concurrent callers share one call.
+     * Pass the key that was rejected so a caller that lost the race reuses the
+     * key another caller already fetched instead of refreshing again.
+     * A failing provider rejects with `AuthInvalidCredentialsError`.
+     */
+    async refresh(rejected?: string): Promise<string | undefined> {
+        if (!this.provider) return this.apiKey;
+        if (rejected !== undefined && rejected !== this.apiKey && !this.isExpired()) return this.apiKey;
+        if (!this.pending) {
+            const provider = this.provider;
+            this.pending = (async () => {
+                try {
+                    const result = await provider();
+                    const credential = typeof result === 'string' ? { apiKey: result } : result;
+                    // A `set()` while the provider was running wins.
+                    if (this.provider === provider) this.update(credential.apiKey, credential.expiresAt);
+                    return this.apiKey;
+                } catch (e) {
+                    // An SDK error, so the fetch pipeline passes it through instead of retrying it.
+                    if (e instanceof AerostackError) throw e;
+                    throw new AuthInvalidCredentialsError(`API key provider failed: ${(e as any)?.message ?? e}`, {
+                        code: 'AUTH_INVALID_CREDENTIALS',
+                        cause: e,
+                    });
+                } finally {
+                    this.pending = null;
+                }
+            })();
+        }
+        return this.pending;
+    }
+
+    /** Replace the key with a static one; any provider is dropped. */
+    set(apiKey: string): void {
+        this.provider = undefined;
+        this.update(apiKey, undefined);
+    }
+
+    /** Listen for key changes. Returns an unsubscribe function. */
+    onRotate(listener: (apiKey: string | undefined) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /** Stop the expiry timer. */
+    dispose(): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+    }
+
+    private isExpired(): boolean {
+        return this.refreshAt !== undefined && Date.now() >= this.refreshAt;
+    }
+
+    private update(apiKey: string, expiresAt: Date | number | undefined): void {
+        this.dispose();
+        this.refreshAt = undefined;
+        if (expiresAt !== undefined && this.provider) {
+            const ttl = new Date(expiresAt).getTime() - Date.now();
+            this.refreshAt = Date.now() + Math.max(0, ttl - Math.min(EXPIRY_SKEW_MS, ttl / 2));
+            if (ttl > 0) {
+                // Rotate ahead of expiry so long-lived holders (rpc, realtime) get the new key in time.
+                this.timer = setTimeout(() => { this.refresh().catch(() => { }); }, this.refreshAt - Date.now());
+                (this.timer as any).unref?.();
+            }
+        }
+        if (apiKey === this.apiKey) return;
+        this.apiKey = apiKey;
+        for (const listener of this.listeners) listener(apiKey);
+    }
+}
+
+function withApiKey(init: RequestInit | undefined, apiKey: string | undefined): RequestInit {
+    if (apiKey === undefined) return init ?? {};
+    return { ...init, headers: { ...(init?.headers as Record<string, string> | undefined), [API_KEY_HEADER]: apiKey } };
+}
+
+/**
+ * Wrap a fetch implementation so each request carries the current API key.
+ * A 401 with a refreshable source refreshes the key and replays the request once.
+ */
+export function withCredentials(fetchApi: FetchAPI, credentials: Credentials): FetchAPI {
+    return async (input, init) => {
+        const apiKey = await credentials.get();
+        const response = await fetchApi(input, withApiKey(init, apiKey));
+        // Streamed bodies can't be sent twice.
+        if (response.status !== 401 || !credentials.refreshable || init?.body instanceof ReadableStream) return response;
+
+        const refreshed = await credentials.refresh(apiKey);
+        if (refreshed === undefined || refreshed === apiKey) return response;
+        await response.body?.cancel().catch(() => { });
+        return fetchApi(input, withApiKey(init, refreshed));
+    };
+}
@@ -0,0 +1,229 @@
+/**
+ * Aerostack SDK error types
+ */
+
+import { ErrorResponseCodeEnum } from './_generated/models/index.js';
+import type { ErrorResponse } from './_generated/models/index.js';
+import { FetchError, RequiredError, ResponseError } from './_generated/runtime.js';
+import type { Middleware } from './_generated/runtime.js';
+
+export interface AerostackErrorInit {
+    code?: string;
+    status?: number;
+    requestId?: string;
+    details?: Record<string, any> | null;
+    response?: Response;
+    cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the SDK.
+ * `code` mirrors `ErrorResponse.code` when the server sent one.
+ */
+export class AerostackError extends Error {
+    override name = 'AerostackError';
+    readonly code: string;
+    readonly status?: number;
+    readonly requestId?: string;
+    readonly details?: Record<string, any> | null;
+    /** The raw response, kept for callers that still inspect it directly. */
+    readonly response?: Response;
+
+    constructor(message: string, init: AerostackErrorInit = {}) {
+        super(message);
+        this.code = init.code ?? 'UNKNOWN_ERROR';
+        this.status = init.status;
+        this.requestId = init.requestId;
+        this.details = init.details;
+        this.response = init.response;
+        if (init.cause !== undefined) (this as any).cause = init.cause;
+    }
+}
+
+export class AuthInvalidKeyError extends AerostackError {
+    override name = 'AuthInvalidKeyError';
+}
+
+export class AuthInvalidCredentialsError extends AerostackError {
+    override name = 'AuthInvalidCredentialsError';
+}
+
+export class DbQueryFailedError extends AerostackError {
+    override name = 'DbQueryFailedError';
+}
+
+export class RateLimitExceededError extends AerostackError {
+    override name = 'RateLimitExceededError';
+}
+
+export class ValidationError extends AerostackError {
+    override name = 'ValidationError';
+}
+
+export class InternalError extends AerostackError {
+    override name = 'InternalError';
+}
+
+export class ForbiddenError extends AerostackError {
+    override name = 'ForbiddenError';
+}
+
+/** A call exceeded its `timeoutMs` (per call or the client default). */
+export class TimeoutError extends AerostackError {
+    override name = 'TimeoutError';
+    readonly timeoutMs: number;
+
+    constructor(timeoutMs: number, init: AerostackErrorInit = {}) {
+        super(`Request timed out after ${timeoutMs}ms`, { code: 'TIMEOUT', ...init });
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * A 2xx response body did not match the expected schema
+ * (raised when `validateResponses` is `'strict'`).
+ */
+export class ResponseValidationError extends AerostackError {
+    override name = 'ResponseValidationError';
+}
+
+/** The client was closed with `sdk.close()`; the call was not sent or was cut off. */
+export class ClientClosedError extends AerostackError {
+    override name = 'ClientClosedError';
+}
+
+/**
+ * The service's circuit breaker is open; the call was not sent.
+ * `details.retryAfterMs` says when a trial call will be let through.
+ */
+export class CircuitOpenError extends AerostackError {
+    override name = 'CircuitOpenError';
+}
+
+/**
+ * A write could not reach the API and was stored in the outbox for replay
+ * (see `SDKOptions.outbox`). `details.id` is the entry id and Idempotency-Key.
+ */
+export class OutboxQueuedError extends AerostackError {
+    override name = 'OutboxQueuedError';
+}
+
+/** `SDK.fromEnv()` found missing or malformed settings; `details.issues` lists them. */
+export class ConfigurationError extends AerostackError {
+    override name = 'ConfigurationError';
+}
+
+/**
+ * Some chunks of a bulk cache call (`getMany`, `setMany`, `deleteMany`)
+ * failed. `details.failedKeys` lists their keys, `details.failures` pairs
+ * each failed chunk's keys with its error, and `details.partial` is the
+ * merged result of the chunks that succeeded.
+ */
+export class CacheBulkError extends AerostackError {
+    override name = 'CacheBulkError';
+}
+
+/** Replay mode found no recorded interaction for a request (see `Cassette`). */
+export class CassetteMismatchError extends AerostackError {
+    override name = 'CassetteMismatchError';
+}
+
+type AerostackErrorClass = new (message: string, init?: AerostackErrorInit) => AerostackError;
+
+const ERROR_CLASSES: Record<ErrorResponseCodeEnum, AerostackErrorClass> = {
+    [ErrorResponseCodeEnum.AuthInvalidKey]: AuthInvalidKeyError,
+    [ErrorResponseCodeEnum.AuthInvalidCredentials]: AuthInvalidCredentialsError,
+    [ErrorResponseCodeEnum.DbQueryFailed]: DbQueryFailedError,
+    [ErrorResponseCodeEnum.RateLimitExceeded]: RateLimitExceededError,
+    [ErrorResponseCodeEnum.ValidationError]: ValidationError,
+    [ErrorResponseCodeEnum.InternalError]: InternalError,
+    [ErrorResponseCodeEnum.Forbidden]: ForbiddenError,
+};
+
+// Used when the body carries no recognised code (gateway errors, proxies, etc.)
+const STATUS_CODES: Record<number, ErrorResponseCodeEnum> = {
+    400: ErrorResponseCodeEnum.ValidationError,
+    401: ErrorResponseCodeEnum.AuthInvalidKey,
+    403: ErrorResponseCodeEnum.Forbidden,
+    422: ErrorResponseCodeEnum.ValidationError,
+    429: ErrorResponseCodeEnum.RateLimitExceeded,
+};
+
+/** Build the matching error subclass for an `ErrorResponse` body. */
+export function createAerostackError(body: Partial<ErrorResponse>, init: AerostackErrorInit = {}): AerostackError {
+    const code = body.code ?? (init.status !== undefined ? STATUS_CODES[init.status] : undefined)
+        ?? (init.status !== undefined && init.status >= 500 ? ErrorResponseCodeEnum.InternalError : undefined);
+    const ErrorClass = (code && ERROR_CLASSES[code as ErrorResponseCodeEnum]) || AerostackError;
+    const message = body.message || (init.status !== undefined ? `HTTP ${init.status}` : 'Request failed');
+    return new ErrorClass(message, { ...init, code, details: body.details ?? init.details });
+}
+
+/**
+ * Normalise anything thrown by the SDK, the generated runtime or `sdk.rpc`
+ * into an `AerostackError`.
+ */
+export function toAerostackError(err: unknown): AerostackError {
+    if (err instanceof AerostackError) return err;
+    if (err instanceof ResponseError) {
+        return createAerostackError({}, { status: err.response.status, response: err.response, cause: err });
+    }
+    if (err instanceof RequiredError) {
+        return new ValidationError(err.message, { code: ErrorResponseCodeEnum.ValidationError, details: { field: err.field }, cause: err });
+    }
+    if (err instanceof FetchError) {
+        return new AerostackError(err.cause?.message || err.message, { code: 'NETWORK_ERROR', cause: err });
+    }
+    const e = err as any;
+    if (e?.name === 'AbortError') {
+        return new AerostackError(e.message || 'The operation was aborted', { code: 'ABORTED', cause: err });
+    }
+    // Errors from `sdk.rpc` may carry the server's code and status directly.
+    if (e && typeof e === 'object' && (typeof e.code === 'string' || typeof e.status === 'number')) {
+        return createAerostackError(
+            { code: e.code, message: e.message, details: e.details },
+            { status: e.status, requestId: e.requestId, cause: err },
+        );
+    }
+    return new AerostackError(e?.message ?? String(err), { cause: err });
+}
+
+/**
+ * Read a failed response and turn it into a typed error.
+ * Accepts both `{ code, message, details }` and `{ error: ... }` bodies.
+ */
+export async function parseErrorResponse(response: Response): Promise<AerostackError> {
+    const json: any = await response.json().catch(() => null);
+    let body: Partial<ErrorResponse> = {};
+    if (json && typeof json === 'object') {
+        if (typeof json.code === 'string' || typeof json.message === 'string') {
+            body = json;
+        } else if (json.error && typeof json.error === 'object') {
+            body = json.error;
+        } else if (typeof json.error === 'string') {
+            body = { message: json.error };
+        }
+    }
+    return createAerostackError(body, {
+        status: response.status,
+        requestId: response.headers?.get('X-Request-ID') ?? undefined,
+        response,
+    });
+}
+
+/**
+ * Middleware that replaces the generated `ResponseError` with a typed
+ * `AerostackError` for every non-2xx response. SDK errors and aborts raised
+ * inside the fetch pipeline are rethrown as-is rather than wrapped in `FetchError`.
+ */
+export const errorMiddleware: Middleware = {
+    async post({ response }) {
+        if (response.status < 200 || response.status >= 300) {
+            throw await parseErrorResponse(response);
+        }
+    },
+    async onError({ error }) {
+        if (error instanceof AerostackError || (error as any)?.name === 'AbortError') {
+            throw error;
+        }
+    },
+};
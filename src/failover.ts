@@ -0,0 +1,148 @@
+/**
+ * Failover across regional server URLs. Every transport (the generated APIs,
+ * `streamGateway`, `sdk.rpc` and realtime) asks the same `Endpoints` for the
+ * URL to use and reports failures back to it.
+ */
+
+import type { FetchAPI } from './_generated/runtime.js';
+import type { Logger } from './logger.js';
+import { isAbortError, isConnectionError, urlOf } from './utils.js';
+
+export interface FailoverOptions {
+    /** How often an unhealthy endpoint is probed, in ms. Defaults to 30s. */
+    probeIntervalMs?: number;
+    /**
+     * Health check for an unhealthy endpoint. Defaults to a `GET` of the
+     * server URL, healthy on any response below 500.
+     */
+    probe?: (serverUrl: string) => Promise<boolean>;
+}
+
+const DEFAULT_PROBE_INTERVAL_MS = 30_000;
+
+// `https://eu.example.com/v1` and `https://eu.example.com` address the same region.
+function rootOf(serverUrl: string): string {
+    return serverUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+/** Connection errors and 5xx responses count against an endpoint. */
+function isEndpointFailure(err: unknown): boolean {
+    if (isAbortError(err)) return false;
+    const status = (err as any)?.status ?? (err as any)?.response?.status;
+    if (typeof status === 'number') return status >= 500;
+    return isConnectionError(err);
+}
+
+/**
+ * Server URLs in order of preference, the first being the primary. Requests
+ * use the first healthy one; an endpoint that fails is probed in the
+ * background until it recovers, and traffic moves back to it.
+ */
+export class Endpoints {
+    readonly urls: readonly string[];
+    private unhealthy = new Map<string, ReturnType<typeof setInterval>>();
+    private listeners = new Set<(url: string) => void>();
+    private probeIntervalMs: number;
+    private probe: (serverUrl: string) => Promise<boolean>;
+
+    constructor(urls: string[], options: FailoverOptions, fetchApi: FetchAPI, private logger: Logger) {
+        if (urls.length === 0) throw new Error('serverUrls must contain at least one URL');
+        this.urls = urls;
+        this.probeIntervalMs = options.probeIntervalMs ?? DEFAULT_PROBE_INTERVAL_MS;
+        this.probe = options.probe ?? (async (url) => {
+            const response = await fetchApi(url, { method: 'GET' });
+            await response.body?.cancel().catch(() => { });
+            return response.status < 500;
+        });
+    }
+
+    /** The URL to send requests to. With every endpoint unhealthy, the primary. */
+    get current(): string {
+        return this.urls.find(url => !this.unhealthy.has(url)) ?? this.urls[0]!;
+    }
+
+    isHealthy(url: string): boolean {
+        return !this.unhealthy.has(url);
+    }
+
+    /** Called with the new URL whenever `current` changes. */
+    onChange(cb: (url: string) => void): () => void {
+        this.listeners.add(cb);
+        return () => this.listeners.delete(cb);
+    }
+
+    /** Mark `url` unhealthy and start probing it. */
+    fail(url: string, reason?: string): void {
+        if (this.unhealthy.has(url) || !this.urls.includes(url)) return;
+        const before = this.current;
+        const timer = setInterval(() => { void this.check(url); }, this.probeIntervalMs);
+        timer.unref?.();
+        this.unhealthy.set(url, timer);
+        this.logger.warn({ url, reason }, 'Endpoint marked unhealthy');
+        this.changed(before);
+    }
+
+    /** Mark `url` healthy again and stop probing it. */
+    recover(url: string): void {
+        const timer = this.unhealthy.get(url);
+        if (!timer) return;
+        const before = this.current;
+        clearInterval(timer);
+        this.unhealthy.delete(url);
+        this.logger.info({ url }, 'Endpoint recovered');
+        this.changed(before);
+    }
+
+    /** Run `call` against the current endpoint and record whether it failed. */
+    async use<T>(call: (serverUrl: string) => Promise<T>, failed?: (result: T) => boolean): Promise<T> {
+        const url = this.current;
+        let result: T;
+        try {
+            result = await call(url);
+        } catch (e) {
+            if (isEndpointFailure(e)) this.fail(url, (e as any)?.message);
+            throw e;
+        }
+        if (failed?.(result)) this.fail(url, 'server error');
+        else this.recover(url);
+        return result;
+    }
+
+    /** Point a URL under any of the endpoints at `serverUrl` instead. */
+    rewrite(url: string, serverUrl: string): string {
+        for (const endpoint of this.urls) {
+            const root = rootOf(endpoint);
+            if (url === root || url.startsWith(`${root}/`) || url.startsWith(`${root}?`)) {
+                return rootOf(serverUrl) + url.slice(root.length);
+            }
+        }
+        return url;
+    }
+
+    /** Stop probing. */
+    close(): void {
+        for (const timer of this.unhealthy.values()) clearInterval(timer);
+        this.unhealthy.clear();
+        this.listeners.clear();
+    }
+
+    private async check(url: string): Promise<void> {
+        const healthy = await this.probe(url).catch(() => false);
+        if (healthy) this.recover(url);
+    }
+
+    private changed(before: string): void {
+        const after = this.current;
+        if (after === before) return;
+        this.logger.warn({ from: before, to: after }, 'Switching endpoint');
+        this.listeners.forEach(cb => cb(after));
+    }
+}
+
+/** Send each request to the current endpoint, marking it unhealthy on connection errors and 5xx responses. */
+export function withFailover(fetchApi: FetchAPI, endpoints: Endpoints): FetchAPI {
+    return (input, init) => endpoints.use(
+        serverUrl => fetchApi(typeof input === 'string' || input instanceof URL ? endpoints.rewrite(urlOf(input), serverUrl) : input, init),
+        response => response.status >= 500,
+    );
+}
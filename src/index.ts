@@ -1,3 +1,22 @@
 export * from './sdk.js';
 export * from './realtime.js';
+export * from './errors.js';
+export * from './retry.js';
+export * from './transport.js';
+export * from './result.js';
+export * from './schemas.js';
+export * from './validation.js';
+export * from './logger.js';
+export * from './telemetry.js';
+export * from './credentials.js';
+export * from './ratelimit.js';
+export * from './memory.js';
+export * from './cassette.js';
+export * from './agent.js';
+export * from './metadata.js';
+export * from './failover.js';
+export * from './breaker.js';
+export * from './outbox.js';
+export * from './config.js';
+export * from './cache.js';
 export * from './_generated/models/index.js';
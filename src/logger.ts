@@ -0,0 +1,107 @@
+/**
+ * Structured logging for the SDK.
+ *
+ * Any pino- or bunyan-style logger (`logger.info(fields, message)`) can be
+ * passed as `SDKOptions.logger`; `console` works too.
+ */
+
+import type { Middleware } from './_generated/runtime.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export type LogFn = (fields: Record<string, unknown>, message: string) => void;
+
+export interface Logger {
+    debug: LogFn;
+    info: LogFn;
+    warn: LogFn;
+    error: LogFn;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+const REDACTED = '[REDACTED]';
+const SENSITIVE_HEADERS = new Set(['x-aerostack-key', 'authorization']);
+
+/** Copy of `headers` with credential values replaced. */
+export function redactHeaders(headers: HeadersInit | undefined): Record<string, string> {
+    const out: Record<string, string> = {};
+    if (!headers) return out;
+    const entries = headers instanceof Headers
+        ? Array.from(headers.entries())
+        : Array.isArray(headers) ? headers : Object.entries(headers);
+    for (const [name, value] of entries) {
+        if (name === undefined || value === undefined) continue;
+        out[name] = SENSITIVE_HEADERS.has(name.toLowerCase()) ? REDACTED : value;
+    }
+    return out;
+}
+
+/** Redact the credential part of `aerostack-key.*` / `aerostack-token.*` WebSocket subprotocols. */
+export function redactProtocols(protocols: string[]): string[] {
+    return protocols.map(p => p.replace(/^(aerostack-(?:key|token))\..*$/, `$1.${REDACTED}`));
+}
+
+/**
+ * Wrap a logger so calls below `level` are dropped. Without a logger,
+ * warnings and errors go to the console (the SDK's historical behaviour).
+ */
+export function createLogger(logger?: Logger, level?: LogLevel): Logger {
+    const target: Logger = logger ?? {
+        debug: (fields, message) => console.debug(`Aerostack: ${message}`, fields),
+        info: (fields, message) => console.info(`Aerostack: ${message}`, fields),
+        warn: (fields, message) => console.warn(`Aerostack: ${message}`, fields),
+        error: (fields, message) => console.error(`Aerostack: ${message}`, fields),
+    };
+    const threshold = LEVELS[level ?? (logger ? 'info' : 'warn')];
+    const at = (name: Exclude<LogLevel, 'silent'>): LogFn =>
+        LEVELS[name] >= threshold ? (fields, message) => target[name](fields, message) : () => { };
+    return { debug: at('debug'), info: at('info'), warn: at('warn'), error: at('error') };
+}
+
+function pathOf(url: string): string {
+    try {
+        return new URL(url).pathname;
+    } catch {
+        return url;
+    }
+}
+
+function requestIdOf(init: RequestInit, response?: Response): string | undefined {
+    return response?.headers.get('X-Request-ID') ?? redactHeaders(init.headers)['X-Request-ID'] ?? undefined;
+}
+
+/**
+ * Middleware that logs every call made by the generated APIs: method, path,
+ * status, duration and request id at `debug`, failures at `info`.
+ * Must run before `errorMiddleware`, which throws on failed responses.
+ */
+export function loggingMiddleware(logger: Logger): Middleware {
+    const started = new WeakMap<RequestInit, number>();
+    return {
+        async pre({ url, init }) {
+            started.set(init, Date.now());
+            logger.debug({ method: init.method, path: pathOf(url), headers: redactHeaders(init.headers) }, 'HTTP request');
+        },
+        async post({ url, init, response }) {
+            const fields = {
+                method: init.method,
+                path: pathOf(url),
+                status: response.status,
+                durationMs: Date.now() - (started.get(init) ?? Date.now()),
+                requestId: requestIdOf(init, response),
+            };
+            if (response.status >= 200 && response.status < 300) logger.debug(fields, 'HTTP response');
+            else logger.info(fields, 'HTTP request failed');
+        },
+        async onError({ url, init, error }) {
+            logger.info({
+                method: init.method,
+                path: pathOf(url),
+                durationMs: Date.now() - (started.get(init) ?? Date.now()),
+                requestId: requestIdOf(init),
+                error: (error as any)?.message ?? String(error),
+            }, 'HTTP request error');
+        },
+    };
+}
@@ -0,0 +1,691 @@
+/**
+ * In-process fake of the Aerostack API for offline tests.
+ *
+ * `new SDK({ backend: 'memory' })` swaps the network for `MemoryBackend.fetch`
+ * and a loopback WebSocket, so every request still goes through the generated
+ * APIs, middleware, retries and validation. `sdk.rpc` keeps its own transport
+ * and is not covered.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import type { FetchAPI } from './_generated/runtime.js';
+import { JobRecordStatusEnum } from './_generated/models/index.js';
+import { operationFromUrl } from './operations.js';
+import { urlOf } from './utils.js';
+
+type Json = Record<string, any>;
+
+export interface MemoryBackendOptions {
+    /** Starting `gateway.getWallet` balance. `billingLog` units are deducted from it. */
+    walletBalance?: number;
+}
+
+/** Rows returned for a `db.query` / `db.batch` statement. */
+export type MemoryQueryHandler = (sql: string, params: any[]) => Json[] | Promise<Json[]>;
+/** Processes a queued job; throwing marks it `failed`. */
+export type MemoryJobHandler = (job: MemoryJob) => void | Promise<void>;
+/** Assistant reply for `ai.chat` and gateway completions. */
+export type MemoryChatHandler = (messages: Array<{ role: string; content: string }>) => string | Promise<string>;
+/** Result of `services.invoke` for one service. */
+export type MemoryServiceHandler = (data: any) => any;
+
+export interface MemoryJob {
+    id: string;
+    type: string;
+    data: Json;
+    status: JobRecordStatusEnum;
+    createdAt: string;
+}
+
+interface CacheEntry {
+    value: any;
+    /** Epoch ms. */
+    expiresAt?: number;
+}
+
+interface StoredObject {
+    data: Uint8Array;
+    contentType: string;
+    etag: string;
+    lastModified: string;
+}
+
+interface SearchDocument {
+    id: string;
+    content: string;
+    type: string;
+    metadata: Json;
+}
+
+interface StoredUser {
+    id: string;
+    email: string;
+    password: string;
+    name?: string;
+    metadata?: Json;
+    createdAt: string;
+}
+
+const DEFAULT_LIST_LIMIT = 1000;
+
+function json(body: unknown, status: number = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json', 'X-Request-ID': `mem_${randomUUID()}` },
+    });
+}
+
+function error(status: number, code: string, message: string): Response {
+    return json({ code, message }, status);
+}
+
+/** Page through sorted `items` using the last returned key as the cursor. */
+function paginate<T>(items: T[], keyOf: (item: T) => string, limit: number | undefined, cursor: string | undefined) {
+    const start = cursor ? items.findIndex(item => keyOf(item) > cursor) : 0;
+    const from = start === -1 ? items.length : start;
+    const page = items.slice(from, from + (limit ?? DEFAULT_LIST_LIMIT));
+    const complete = from + page.length >= items.length;
+    return { page, complete, cursor: complete || page.length === 0 ? undefined : keyOf(page[page.length - 1]!) };
+}
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function sseResponse(chunks: Json[]): Response {
+    const body = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join('') + 'data: [DONE]\n\n';
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+export class MemoryBackend {
+    private cache = new Map<string, CacheEntry>();
+    private jobs = new Map<string, MemoryJob>();
+    private objects = new Map<string, StoredObject>();
+    private documents = new Map<string, SearchDocument>();
+    private users = new Map<string, StoredUser>();
+    private walletBalance: number;
+    private consumed = 0;
+    private queryHandler: MemoryQueryHandler = () => [];
+    private chatHandler: MemoryChatHandler = (messages) =>
+        [...messages].reverse().find(m => m.role === 'user')?.content ?? '';
+    private jobHandlers = new Map<string, MemoryJobHandler>();
+    private services = new Map<string, MemoryServiceHandler>();
+    private hub = new RealtimeHub();
+
+    constructor(options: MemoryBackendOptions = {}) {
+        this.walletBalance = options.walletBalance ?? 0;
+    }
+
+    /** Answer `db.query` / `db.batch` statements. Without a handler they return no rows. */
+    onQuery(handler: MemoryQueryHandler): this {
+        this.queryHandler = handler;
+        return this;
+    }
+
+    /** Process jobs of `type` as they are enqueued (after their `delay`). */
+    onJob(type: string, handler: MemoryJobHandler): this {
+        this.jobHandlers.set(type, handler);
+        return this;
+    }
+
+    /** Reply to chat completions. Defaults to echoing the last user message. */
+    onChat(handler: MemoryChatHandler): this {
+        this.chatHandler = handler;
+        return this;
+    }
+
+    /** Handle `services.invoke` for `name`. Unregistered services answer 404. */
+    onService(name: string, handler: MemoryServiceHandler): this {
+        this.services.set(name, handler);
+        return this;
+    }
+
+    /** Push a message (e.g. a `db_change`) to every realtime subscriber of `topic`. */
+    broadcast(topic: string, message: Json): void {
+        this.hub.broadcast(topic, { topic, ...message });
+    }
+
+    /** WebSocket constructor connected to this backend's realtime hub. */
+    get WebSocket(): new (url: string, protocols?: string[]) => any {
+        return this.hub.WebSocket;
+    }
+
+    /** `fetch` replacement that serves every SDK endpoint from memory. */
+    fetch: FetchAPI = async (input, init) => {
+        const url = new URL(urlOf(input));
+        if (url.pathname.endsWith('/realtime/history')) return this.history(url);
+
+        const operation = operationFromUrl(url.href).name;
+        const body: Json = typeof init?.body === 'string' ? JSON.parse(init.body || '{}') : {};
+        if (operation === 'storage.upload') return this.upload(init?.body as FormData);
+
+        switch (operation.split('.')[0]) {
+            case 'cache': return this.handleCache(operation, body);
+            case 'queue': return this.handleQueue(operation, body);
+            case 'storage': return this.handleStorage(operation, body);
+            case 'db': return this.handleDb(operation, body);
+            case 'ai': return this.handleAi(operation, body);
+            case 'gateway': return this.handleGateway(operation, body);
+            case 'auth': return this.handleAuth(operation, body);
+            case 'services': return this.handleServices(body);
+        }
+        return error(404, 'NOT_FOUND', `No in-memory handler for ${url.pathname}`);
+    };
+
+    // ─── Cache ──────────────────────────────────────────────────────
+
+    private cacheGet(key: string): CacheEntry | undefined {
+        const entry = this.cache.get(key);
+        if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            this.cache.delete(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    private cacheSet(key: string, value: any, ttl?: number): void {
+        this.cache.set(key, { value, expiresAt: ttl ? Date.now() + ttl * 1000 : undefined });
+    }
+
+    private cacheKeys(prefix: string = ''): string[] {
+        return [...this.cache.keys()].filter(key => key.startsWith(prefix) && this.cacheGet(key)).sort();
+    }
+
+    private handleCache(operation: string, body: Json): Response {
+        switch (operation) {
+            case 'cache.get': {
+                const entry = this.cacheGet(body['key']);
+                return json({ value: entry?.value ?? null, exists: entry !== undefined });
+            }
+            case 'cache.set':
+                this.cacheSet(body['key'], body['value'], body['ttl']);
+                return json({ success: true });
+            case 'cache.delete':
+                this.cache.delete(body['key']);
+                return json({ success: true });
+            case 'cache.getMany':
+                return json({
+                    results: (body['keys'] as string[]).map(key => {
+                        const entry = this.cacheGet(key);
+                        return { key, value: entry?.value ?? null, exists: entry !== undefined };
+                    }),
+                });
+            case 'cache.setMany':
+                for (const entry of body['entries'] as Json[]) this.cacheSet(entry['key'], entry['value'], entry['ttl']);
+                return json({ success: true, count: body['entries'].length });
+            case 'cache.deleteMany': {
+                const keys = body['keys'] as string[];
+                const deleted = keys.filter(key => this.cacheGet(key) && this.cache.delete(key)).length;
+                return json({ success: true, count: keys.length, deleted });
+            }
+            case 'cache.list': {
+                const { page, complete, cursor } = paginate(this.cacheKeys(body['prefix']), key => key, body['limit'], body['cursor']);
+                return json({
+                    keys: page.map(key => {
+                        const expiresAt = this.cache.get(key)?.expiresAt;
+                        return expiresAt === undefined ? { key } : { key, expiration: Math.floor(expiresAt / 1000) };
+                    }),
+                    list_complete: complete,
+                    cursor,
+                });
+            }
+            case 'cache.keys':
+                return json({ keys: this.cacheKeys(body['prefix']), truncated: false });
+            case 'cache.flush': {
+                const keys = this.cacheKeys(body['prefix']);
+                for (const key of keys) this.cache.delete(key);
+                return json({ success: true, deleted: keys.length });
+            }
+            case 'cache.expire': {
+                const entry = this.cacheGet(body['key']);
+                if (entry) entry.expiresAt = Date.now() + body['ttl'] * 1000;
+                return json({ success: entry !== undefined });
+            }
+            case 'cache.increment': {
+                const entry = this.cacheGet(body['key']);
+                const current = entry ? entry.value : (body['initialValue'] ?? 0);
+                if (typeof current !== 'number') {
+                    return error(400, 'VALIDATION_ERROR', `Value at ${body['key']} is not a number`);
+                }
+                const value = current + (body['amount'] ?? 1);
+                if (entry) entry.value = value;
+                else this.cacheSet(body['key'], value, body['ttl']);
+                return json({ value });
+            }
+        }
+        return error(404, 'NOT_FOUND', `Unknown cache operation ${operation}`);
+    }
+
+    // ─── Queue ──────────────────────────────────────────────────────
+
+    private handleQueue(operation: string, body: Json): Response {
+        switch (operation) {
+            case 'queue.enqueue': {
+                const job: MemoryJob = {
+                    id: randomUUID(),
+                    type: body['type'],
+                    data: body['data'] ?? {},
+                    status: JobRecordStatusEnum.Queued,
+                    createdAt: new Date().toISOString(),
+                };
+                this.jobs.set(job.id, job);
+                const handler = this.jobHandlers.get(job.type);
+                if (handler) setTimeout(() => { void this.runJob(job, handler); }, (body['delay'] ?? 0) * 1000);
+                return json({ success: true, jobId: job.id }, 201);
+            }
+            case 'queue.getJob': {
+                const job = this.jobs.get(body['jobId']);
+                return json({ job: job ?? null, exists: job !== undefined });
+            }
+            case 'queue.listJobs': {
+                const jobs = [...this.jobs.values()].filter(job =>
+                    (!body['status'] || job.status === body['status']) && (!body['type'] || job.type === body['type']));
+                const { page, complete, cursor } = paginate(jobs, job => job.createdAt + job.id, body['limit'], body['cursor']);
+                return json({ jobs: page, list_complete: complete, cursor });
+            }
+            case 'queue.cancelJob': {
+                const job = this.jobs.get(body['jobId']);
+                if (!job) return json({ success: false, note: 'Job not found' });
+                if (job.status !== JobRecordStatusEnum.Queued) return json({ success: false, note: `Job is already ${job.status}` });
+                job.status = JobRecordStatusEnum.Cancelled;
+                return json({ success: true });
+            }
+        }
+        return error(404, 'NOT_FOUND', `Unknown queue operation ${operation}`);
+    }
+
+    private async runJob(job: MemoryJob, handler: MemoryJobHandler): Promise<void> {
+        if (job.status !== JobRecordStatusEnum.Queued) return;
+        job.status = JobRecordStatusEnum.Processing;
+        try {
+            await handler(job);
+            job.status = JobRecordStatusEnum.Completed;
+        } catch {
+            job.status = JobRecordStatusEnum.Failed;
+        }
+    }
+
+    // ─── Storage ────────────────────────────────────────────────────
+
+    private async upload(form: FormData): Promise<Response> {
+        const file = form.get('file');
+        const key = String(form.get('key'));
+        const data = typeof file === 'string' ? new TextEncoder().encode(file) : new Uint8Array(await (file as Blob).arrayBuffer());
+        const contentType = (form.get('contentType') as string | null)
+            ?? (typeof file === 'string' ? 'text/plain' : (file as Blob).type || 'application/octet-stream');
+        this.putObject(key, data, contentType);
+        return json({ success: true, url: this.objectUrl(key) });
+    }
+
+    private putObject(key: string, data: Uint8Array, contentType: string): void {
+        this.objects.set(key, {
+            data,
+            contentType,
+            etag: `"${createHash('md5').update(data).digest('hex')}"`,
+            lastModified: new Date().toISOString(),
+        });
+    }
+
+    private objectUrl(key: string): string {
+        return `memory://storage/${encodeURIComponent(key)}`;
+    }
+
+    private describe(key: string, object: StoredObject): Json {
+        return { key, size: object.data.byteLength, lastModified: object.lastModified, contentType: object.contentType, etag: object.etag };
+    }
+
+    private handleStorage(operation: string, body: Json): Response {
+        const object = this.objects.get(body['key']);
+        switch (operation) {
+            case 'storage.get':
+                if (!object) return error(404, 'NOT_FOUND', `Object ${body['key']} not found`);
+                return new Response(object.data, {
+                    status: 200,
+                    headers: { 'Content-Type': object.contentType, ETag: object.etag },
+                });
+            case 'storage.getUrl':
+                if (!object) return error(404, 'NOT_FOUND', `Object ${body['key']} not found`);
+                return json({ success: true, url: this.objectUrl(body['key']) });
+            case 'storage.delete':
+                this.objects.delete(body['key']);
+                return json({ success: true });
+            case 'storage.exists':
+                return json({ exists: object !== undefined });
+            case 'storage.getMetadata':
+                if (!object) return json({ exists: false });
+                return json({ exists: true, ...this.describe(body['key'], object) });
+            case 'storage.list': {
+                const keys = [...this.objects.keys()].filter(key => key.startsWith(body['prefix'] ?? '')).sort();
+                const { page, complete, cursor } = paginate(keys, key => key, body['limit'], body['cursor']);
+                return json({ objects: page.map(key => this.describe(key, this.objects.get(key)!)), truncated: !complete, cursor });
+            }
+            case 'storage.copy':
+            case 'storage.move': {
+                const source = this.objects.get(body['sourceKey']);
+                if (!source) return error(404, 'NOT_FOUND', `Object ${body['sourceKey']} not found`);
+                this.objects.set(body['destKey'], { ...source, lastModified: new Date().toISOString() });
+                if (operation === 'storage.move') this.objects.delete(body['sourceKey']);
+                return json({ success: true, url: this.objectUrl(body['destKey']) });
+            }
+        }
+        return error(404, 'NOT_FOUND', `Unknown storage operation ${operation}`);
+    }
+
+    // ─── Database ───────────────────────────────────────────────────
+
+    private async handleDb(operation: string, body: Json): Promise<Response> {
+        try {
+            if (operation === 'db.query') {
+                const results = await this.queryHandler(body['sql'], body['params'] ?? []);
+                return json({ results, count: results.length });
+            }
+            const results = [];
+            for (const query of body['queries'] as Json[]) {
+                results.push({ success: true, results: await this.queryHandler(query['sql'], query['params'] ?? []) });
+            }
+            return json({ success: true, results });
+        } catch (e) {
+            return error(400, 'DB_QUERY_FAILED', (e as Error)?.message ?? String(e));
+        }
+    }
+
+    // ─── AI and search ──────────────────────────────────────────────
+
+    private async completion(body: Json): Promise<Response> {
+        const messages = (body['messages'] ?? []) as Array<{ role: string; content: string }>;
+        const content = await this.chatHandler(messages);
+        const usage = {
+            prompt_tokens: messages.reduce((sum, m) => sum + tokenize(m.content).length, 0),
+            completion_tokens: tokenize(content).length,
+            total_tokens: 0,
+        };
+        usage.total_tokens = usage.prompt_tokens + usage.completion_tokens;
+        const id = `chatcmpl_${randomUUID()}`;
+        const created = Math.floor(Date.now() / 1000);
+        const model = body['model'] ?? 'memory';
+
+        if (body['stream']) {
+            const deltas = content.match(/\S+\s*/g) ?? [];
+            return sseResponse([
+                ...deltas.map(delta => ({ id, object: 'chat.completion.chunk', created, model, choices: [{ index: 0, delta: { content: delta } }] })),
+                { id, object: 'chat.completion.chunk', created, model, choices: [], usage },
+            ]);
+        }
+        return json({
+            id,
+            object: 'chat.completion',
+            created,
+            model,
+            choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+            usage,
+        });
+    }
+
+    /** Scores in [0, 1]: idf-weighted share of query terms found, damped by term frequency. */
+    private search(text: string, topK: number, types?: string[], filter?: Json): Json[] {
+        const terms = [...new Set(tokenize(text))];
+        const docs = [...this.documents.values()].filter(doc =>
+            (!types?.length || types.includes(doc.type))
+            && Object.entries(filter ?? {}).every(([key, value]) => doc.metadata[key] === value));
+        const tokens = new Map(docs.map(doc => [doc.id, tokenize(doc.content)]));
+        const idf = new Map(terms.map(term => {
+            const df = docs.filter(doc => tokens.get(doc.id)!.includes(term)).length;
+            return [term, Math.log(1 + (docs.length + 1) / (df + 1))];
+        }));
+        const total = terms.reduce((sum, term) => sum + idf.get(term)!, 0);
+        if (total === 0) return [];
+
+        return docs
+            .map(doc => {
+                const words = tokens.get(doc.id)!;
+                const score = terms.reduce((sum, term) => {
+                    const tf = words.filter(word => word === term).length;
+                    return tf === 0 ? sum : sum + idf.get(term)! * (tf / (tf + 0.5));
+                }, 0) / total;
+                return { id: doc.id, content: doc.content, type: doc.type, metadata: doc.metadata, score };
+            })
+            .filter(result => result.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
+
+    private async handleAi(operation: string, body: Json): Promise<Response> {
+        switch (operation) {
+            case 'ai.chat':
+                return this.completion(body);
+            case 'ai.search.ingest': {
+                const id = body['id'] ?? randomUUID();
+                this.documents.set(id, { id, content: body['content'], type: body['type'], metadata: body['metadata'] ?? {} });
+                return json({ success: true });
+            }
+            case 'ai.search.query':
+                return json({ results: this.search(body['text'], body['topK'] ?? 5, body['types'], body['filter']) });
+            case 'ai.search.get': {
+                const doc = this.documents.get(body['id']);
+                return json({ result: doc ?? null, exists: doc !== undefined });
+            }
+            case 'ai.search.count': {
+                const count = [...this.documents.values()].filter(doc => !body['type'] || doc.type === body['type']).length;
+                return json({ count });
+            }
+            case 'ai.search.listTypes': {
+                const counts = new Map<string, number>();
+                for (const doc of this.documents.values()) counts.set(doc.type, (counts.get(doc.type) ?? 0) + 1);
+                return json({ types: [...counts].map(([type, count]) => ({ type, count })) });
+            }
+            case 'ai.search.update': {
+                const doc = this.documents.get(body['id']);
+                if (!doc) return json({ success: false });
+                this.documents.set(doc.id, {
+                    id: doc.id,
+                    content: body['content'] ?? doc.content,
+                    type: body['type'] ?? doc.type,
+                    metadata: body['metadata'] ?? doc.metadata,
+                });
+                return json({ success: true });
+            }
+            case 'ai.search.delete':
+                return json({ success: this.documents.delete(body['id']) });
+            case 'ai.search.deleteByType':
+                for (const doc of [...this.documents.values()]) if (doc.type === body['type']) this.documents.delete(doc.id);
+                return json({ success: true });
+            case 'ai.search.configure':
+                return json({ success: true });
+        }
+        return error(404, 'NOT_FOUND', `Unknown ai operation ${operation}`);
+    }
+
+    // ─── Gateway, auth, services ────────────────────────────────────
+
+    private handleGateway(operation: string, body: Json): Promise<Response> | Response {
+        switch (operation) {
+            case 'gateway.chat.completions':
+                return this.completion(body);
+            case 'gateway.billingLog':
+                this.consumed += body['units'];
+                this.walletBalance -= body['units'];
+                return json({ success: true, loggedUnits: body['units'] });
+            case 'gateway.getWallet':
+                return json({ wallet: { balance: this.walletBalance, total_consumed: this.consumed } });
+        }
+        return error(404, 'NOT_FOUND', `Unknown gateway operation ${operation}`);
+    }
+
+    private handleAuth(operation: string, body: Json): Response {
+        const email = String(body['email'] ?? '').toLowerCase();
+        let user = this.users.get(email);
+        if (operation === 'auth.signup') {
+            if (user) return error(400, 'VALIDATION_ERROR', `User ${email} already exists`);
+            user = { id: randomUUID(), email, password: body['password'], name: body['name'], metadata: body['metadata'], createdAt: new Date().toISOString() };
+            this.users.set(email, user);
+        } else if (!user || user.password !== body['password']) {
+            return error(401, 'AUTH_INVALID_CREDENTIALS', 'Invalid email or password');
+        }
+        const { password: _, ...profile } = user;
+        return json({ token: `memory.${user.id}`, user: profile, expiresAt: new Date(Date.now() + 3_600_000).toISOString() });
+    }
+
+    private async handleServices(body: Json): Promise<Response> {
+        const handler = this.services.get(body['serviceName']);
+        if (!handler) return error(404, 'NOT_FOUND', `Service ${body['serviceName']} not found`);
+        return json({ success: true, result: await handler(body['data']) });
+    }
+
+    // ─── Realtime history ───────────────────────────────────────────
+
+    private history(url: URL): Response {
+        const limit = Number(url.searchParams.get('limit') ?? 50);
+        const before = url.searchParams.get('before');
+        const messages = this.hub.history(url.searchParams.get('room') ?? '')
+            .filter(m => !before || m.created_at < Number(before))
+            .slice(-limit);
+        return json({ messages });
+    }
+}
+
+// ─── Realtime ───────────────────────────────────────────────────────
+
+interface HubConnection {
+    id: string;
+    socket: MemorySocket;
+    topics: Set<string>;
+    presence: Map<string, Json>;
+}
+
+interface MemorySocket {
+    onopen: (() => void) | null;
+    onmessage: ((event: { data: string }) => void) | null;
+    onclose: (() => void) | null;
+    onerror: ((err: any) => void) | null;
+}
+
+/** Pub/sub and presence shared by every loopback socket of one backend. */
+class RealtimeHub {
+    private connections = new Set<HubConnection>();
+    private persisted = new Map<string, Array<{ id: string; room_id: string; user_id: string; event: string; data: any; created_at: number }>>();
+    readonly WebSocket: new (url: string, protocols?: string[]) => any;
+
+    constructor() {
+        this.WebSocket = memoryWebSocket(this);
+    }
+
+    open(connection: HubConnection): void {
+        this.connections.add(connection);
+    }
+
+    history(room: string) {
+        return this.persisted.get(room) ?? [];
+    }
+
+    broadcast(topic: string, message: Json, except?: HubConnection): void {
+        for (const connection of this.connections) {
+            if (connection !== except && connection.topics.has(topic)) this.deliver(connection, message);
+        }
+    }
+
+    private deliver(connection: HubConnection, message: Json): void {
+        queueMicrotask(() => connection.socket.onmessage?.({ data: JSON.stringify(message) }));
+    }
+
+    private presenceOf(topic: string): Json[] {
+        return [...this.connections]
+            .filter(c => c.presence.has(topic))
+            .map(c => ({ id: c.id, state: c.presence.get(topic) }));
+    }
+
+    receive(connection: HubConnection, message: Json): void {
+        if (!this.connections.has(connection)) return;
+        const { type, topic } = message;
+        switch (type) {
+            case 'ping':
+                this.deliver(connection, { type: 'pong' });
+                break;
+            case 'subscribe':
+                connection.topics.add(topic);
+                this.deliver(connection, { type: 'subscribed', topic });
+                this.deliver(connection, { type: 'event', topic, event: 'presence:sync', data: { presences: this.presenceOf(topic) } });
+                break;
+            case 'unsubscribe':
+                connection.topics.delete(topic);
+                this.untrack(connection, topic);
+                break;
+            case 'publish': {
+                const timestamp = Date.now();
+                if (message['persist']) {
+                    const log = this.persisted.get(topic) ?? [];
+                    log.push({ id: message['id'], room_id: topic, user_id: connection.id, event: message['event'], data: message['data'], created_at: timestamp });
+                    this.persisted.set(topic, log);
+                }
+                this.broadcast(topic, {
+                    type: 'event', topic, event: message['event'], data: message['data'], id: message['id'], userId: connection.id, timestamp,
+                    ...(message['trace'] && { trace: message['trace'] }),
+                });
+                break;
+            }
+            case 'chat':
+                this.broadcast(message['roomId'], {
+                    type: 'chat_message',
+                    topic: message['roomId'],
+                    data: { text: message['text'], metadata: message['metadata'] },
+                    userId: connection.id,
+                    timestamp: Date.now(),
+                });
+                break;
+            case 'track':
+                connection.presence.set(topic, message['state']);
+                this.broadcast(topic, { type: 'event', topic, event: 'presence:join', data: { id: connection.id, state: message['state'] } });
+                break;
+            case 'untrack':
+                this.untrack(connection, topic);
+                break;
+        }
+    }
+
+    private untrack(connection: HubConnection, topic: string): void {
+        if (!connection.presence.delete(topic)) return;
+        this.broadcast(topic, { type: 'event', topic, event: 'presence:leave', data: { id: connection.id } }, connection);
+    }
+
+    disconnect(connection: HubConnection): void {
+        for (const topic of [...connection.presence.keys()]) this.untrack(connection, topic);
+        this.connections.delete(connection);
+    }
+}
+
+/** A WebSocket class whose sockets talk to `hub` instead of the network. */
+function memoryWebSocket(hub: RealtimeHub): new (url: string, protocols?: string[]) => any {
+    return class MemoryWebSocket implements MemorySocket {
+        static readonly OPEN = 1;
+        static readonly CLOSED = 3;
+        readyState = 0;
+        onopen: (() => void) | null = null;
+        onmessage: ((event: { data: string }) => void) | null = null;
+        onclose: (() => void) | null = null;
+        onerror: ((err: any) => void) | null = null;
+        private connection: HubConnection;
+
+        constructor(readonly url: string, readonly protocols?: string[]) {
+            this.connection = { id: randomUUID(), socket: this, topics: new Set(), presence: new Map() };
+            queueMicrotask(() => {
+                this.readyState = 1;
+                hub.open(this.connection);
+                this.onopen?.();
+            });
+        }
+
+        send(data: string): void {
+            const message = JSON.parse(data);
+            queueMicrotask(() => hub.receive(this.connection, message));
+        }
+
+        close(): void {
+            if (this.readyState === 3) return;
+            this.readyState = 3;
+            // After frames already sent, like a real socket's closing handshake.
+            queueMicrotask(() => {
+                hub.disconnect(this.connection);
+                this.onclose?.();
+            });
+        }
+    };
+}
@@ -0,0 +1,145 @@
+/**
+ * Response metadata for facade calls: status, headers, request id, latency
+ * and rate-limit state, returned next to the parsed body by `sdk.withResponse()`.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Middleware } from './_generated/runtime.js';
+import { AerostackError } from './errors.js';
+
+export interface RateLimitInfo {
+    /** Requests allowed in the current window. */
+    limit?: number;
+    /** Requests left in the current window. */
+    remaining?: number;
+    /** When the window resets. */
+    reset?: Date;
+}
+
+export interface ResponseMetadata {
+    /** Server request id (`X-Request-ID`); quote it when contacting Aerostack support. */
+    requestId?: string;
+    status: number;
+    headers: Headers;
+    /** Time from sending the request (first attempt) to receiving the final response, in ms. */
+    durationMs: number;
+    rateLimit: RateLimitInfo;
+}
+
+export interface WithResponse<T> extends ResponseMetadata {
+    data: T;
+}
+
+/**
+ * `T` with every async method resolving to `WithResponse<...>`.
+ * Synchronous methods and plain properties keep their types.
+ */
+export type ResponseClient<T> = {
+    [K in keyof T]: T[K] extends (...args: infer A) => Promise<infer R>
+        ? (...args: A) => Promise<WithResponse<R>>
+        : T[K] extends (...args: any[]) => any
+            ? T[K]
+            : T[K] extends object
+                ? ResponseClient<T[K]>
+                : T[K];
+};
+
+// The call being captured by `withResponseMetadata`; the last response it receives wins.
+const capture = new AsyncLocalStorage<{ metadata?: ResponseMetadata }>();
+
+function headerNumber(headers: Headers, ...names: string[]): number | undefined {
+    for (const name of names) {
+        const value = headers.get(name);
+        if (value !== null && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+    }
+    return undefined;
+}
+
+/**
+ * Read `X-RateLimit-*` (or IETF `RateLimit-*`) headers. A reset larger than
+ * a billion is taken as epoch seconds, anything else as seconds from now.
+ */
+export function parseRateLimit(headers: Headers): RateLimitInfo {
+    const reset = headerNumber(headers, 'X-RateLimit-Reset', 'RateLimit-Reset');
+    return {
+        limit: headerNumber(headers, 'X-RateLimit-Limit', 'RateLimit-Limit'),
+        remaining: headerNumber(headers, 'X-RateLimit-Remaining', 'RateLimit-Remaining'),
+        reset: reset === undefined ? undefined : new Date(reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000),
+    };
+}
+
+/** @internal — Store the metadata of `response` for the call being captured, if any. */
+export function recordResponse(response: Response, startedAt: number, requestHeaders?: HeadersInit): void {
+    const store = capture.getStore();
+    if (!store) return;
+    store.metadata = {
+        requestId: response.headers.get('X-Request-ID') ?? new Headers(requestHeaders).get('X-Request-ID') ?? undefined,
+        status: response.status,
+        headers: response.headers,
+        durationMs: Date.now() - startedAt,
+        rateLimit: parseRateLimit(response.headers),
+    };
+}
+
+/** @internal — Whether the current call runs under `withResponseMetadata`, so it must make an HTTP request. */
+export function isCapturingResponse(): boolean {
+    return capture.getStore() !== undefined;
+}
+
+/** Middleware that feeds `withResponseMetadata`. Must run before `errorMiddleware`. */
+export function metadataMiddleware(): Middleware {
+    const started = new WeakMap<RequestInit, number>();
+    return {
+        async pre({ init }) {
+            started.set(init, Date.now());
+        },
+        async post({ init, response }) {
+            recordResponse(response, started.get(init) ?? Date.now(), init.headers);
+        },
+    };
+}
+
+/**
+ * Run `call` and return its result with the metadata of the last HTTP
+ * response it received. Rejects with code `NO_RESPONSE` if the call made no
+ * HTTP request through the SDK's transport (e.g. `sdk.rpc`).
+ */
+export async function withResponseMetadata<T>(call: () => Promise<T>): Promise<WithResponse<T>> {
+    const store: { metadata?: ResponseMetadata } = {};
+    const data = await capture.run(store, call);
+    if (!store.metadata) {
+        throw new AerostackError('No HTTP response was received for this call', { code: 'NO_RESPONSE' });
+    }
+    return { data, ...store.metadata };
+}
+
+/**
+ * Wrap a client so async methods resolve to `{ data, ...metadata }`. Nested
+ * namespaces are wrapped lazily on access.
+ */
+export function responseClient<T extends object>(target: T): ResponseClient<T> {
+    const wrappers = new Map<PropertyKey, { source: any; wrapped: any }>();
+    return new Proxy(target, {
+        get(obj, prop, receiver) {
+            const value: any = Reflect.get(obj, prop, receiver);
+            if (typeof prop === 'symbol' || prop === 'then' || prop === 'constructor') return value;
+            const cached = wrappers.get(prop);
+            if (cached && cached.source === value) return cached.wrapped;
+            let wrapped: any = value;
+            if (typeof value === 'function') {
+                wrapped = (...args: any[]) => {
+                    let out: any;
+                    const captured = withResponseMetadata(() => {
+                        out = value.apply(obj, args);
+                        return out;
+                    });
+                    return out && typeof out.then === 'function' ? captured : out;
+                };
+            } else if (value !== null && typeof value === 'object') {
+                wrapped = responseClient(value);
+            }
+            wrappers.set(prop, { source: value, wrapped });
+            return wrapped;
+        },
+    }) as ResponseClient<T>;
+}
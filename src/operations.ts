@@ -0,0 +1,138 @@
+/**
+ * Operation catalogue shared by the HTTP transport and the `sdk.rpc` client.
+ *
+ * Every generated endpoint is a POST, so the HTTP method says nothing about
+ * safety — idempotency is declared per operation here instead.
+ */
+
+export interface OperationInfo {
+    /** Dotted operation name, matching the `sdk.rpc` method path (e.g. `cache.get`). */
+    name: string;
+    /** Service the operation belongs to (`cache`, `db`, `queue`, ...). */
+    service: string;
+    /** Safe to send more than once with the same effect. */
+    idempotent: boolean;
+}
+
+const HTTP_OPERATIONS: Array<[path: RegExp, name: string, idempotent: boolean]> = [
+    [/\/cache\/get$/, 'cache.get', true],
+    [/\/cache\/set$/, 'cache.set', true],
+    [/\/cache\/delete$/, 'cache.delete', true],
+    [/\/cache\/getMany$/, 'cache.getMany', true],
+    [/\/cache\/setMany$/, 'cache.setMany', true],
+    [/\/cache\/deleteMany$/, 'cache.deleteMany', true],
+    [/\/cache\/list$/, 'cache.list', true],
+    [/\/cache\/keys$/, 'cache.keys', true],
+    [/\/cache\/flush$/, 'cache.flush', true],
+    [/\/cache\/expire$/, 'cache.expire', true],
+    [/\/cache\/increment$/, 'cache.increment', false],
+    [/\/db\/query$/, 'db.query', false],
+    [/\/db\/batch$/, 'db.batch', false],
+    [/\/queue\/enqueue$/, 'queue.enqueue', false],
+    [/\/queue\/job$/, 'queue.getJob', true],
+    [/\/queue\/jobs$/, 'queue.listJobs', true],
+    [/\/queue\/cancel$/, 'queue.cancelJob', true],
+    [/\/storage\/upload$/, 'storage.upload', false],
+    [/\/storage\/get$/, 'storage.get', true],
+    [/\/storage\/getUrl$/, 'storage.getUrl', true],
+    [/\/storage\/getMetadata$/, 'storage.getMetadata', true],
+    [/\/storage\/list$/, 'storage.list', true],
+    [/\/storage\/exists$/, 'storage.exists', true],
+    [/\/storage\/delete$/, 'storage.delete', true],
+    [/\/storage\/copy$/, 'storage.copy', true],
+    [/\/storage\/move$/, 'storage.move', false],
+    [/\/ai\/chat$/, 'ai.chat', false],
+    [/\/ai\/search\/ingest$/, 'ai.search.ingest', false],
+    [/\/ai\/search\/query$/, 'ai.search.query', true],
+    [/\/ai\/search\/get$/, 'ai.search.get', true],
+    [/\/ai\/search\/count$/, 'ai.search.count', true],
+    [/\/ai\/search\/listTypes$/, 'ai.search.listTypes', true],
+    [/\/ai\/search\/update$/, 'ai.search.update', true],
+    [/\/ai\/search\/delete$/, 'ai.search.delete', true],
+    [/\/ai\/search\/deleteByType$/, 'ai.search.deleteByType', true],
+    [/\/ai\/search\/configure$/, 'ai.search.configure', true],
+    [/\/ai\/gateway\/me\/wallet$/, 'gateway.getWallet', true],
+    [/\/ai\/gateway\/[^/]+\/chat\/completions$/, 'gateway.chat.completions', false],
+    [/\/api\/gateway\/[^/]+\/v1\/chat\/completions$/, 'gateway.chat.completions', false],
+    [/\/gateway\/billing\/log$/, 'gateway.billingLog', false],
+    [/\/auth\/signin$/, 'auth.signin', false],
+    [/\/auth\/signup$/, 'auth.signup', false],
+    [/\/services\/invoke$/, 'services.invoke', false],
+];
+
+const IDEMPOTENT_RPC_METHODS = new Set(
+    HTTP_OPERATIONS.filter(([, , idempotent]) => idempotent).map(([, name]) => name),
+);
+
+function toOperation(name: string, idempotent: boolean): OperationInfo {
+    return { name, service: name.split('.')[0]!, idempotent };
+}
+
+/** Resolve the operation behind a request URL. Unknown paths are treated as non-idempotent. */
+export function operationFromUrl(url: string): OperationInfo {
+    const pathname = url.replace(/[?#].*$/, '');
+    for (const [pattern, name, idempotent] of HTTP_OPERATIONS) {
+        if (pattern.test(pathname)) return toOperation(name, idempotent);
+    }
+    const path = pathname.replace(/^[a-z]+:\/\/[^/]+/i, '').replace(/^\/v1\//, '/');
+    return toOperation(path.replace(/^\//, '').split('/').join('.') || 'unknown', false);
+}
+
+/** Resolve an `sdk.rpc` method path such as `cache.get`. */
+export function operationFromMethod(path: string): OperationInfo {
+    return toOperation(path, IDEMPOTENT_RPC_METHODS.has(path));
+}
+
+/**
+ * Wrap a client object so every async method call goes through `intercept`.
+ * Nested namespaces (`rpc.ai.search.get`) are wrapped lazily.
+ */
+export function interceptClient<T extends object>(
+    target: T,
+    intercept: (operation: OperationInfo, call: () => Promise<any>) => Promise<any>,
+    prefix: string = '',
+): T {
+    const cache = new Map<PropertyKey, any>();
+    return new Proxy(target, {
+        get(obj, prop, receiver) {
+            const value: any = Reflect.get(obj, prop, receiver);
+            if (typeof prop === 'symbol' || prop === 'then' || prop === 'constructor') return value;
+            if (cache.has(prop) && cache.get(prop).source === value) return cache.get(prop).wrapped;
+            const path = prefix ? `${prefix}.${prop}` : prop;
+            let wrapped: any = value;
+            if (typeof value === 'function') {
+                wrapped = (...args: any[]) =>
+                    intercept(operationFromMethod(path), async () => value.apply(obj, args));
+            } else if (value !== null && typeof value === 'object') {
+                wrapped = interceptClient(value, intercept, path);
+            }
+            cache.set(prop, { source: value, wrapped });
+            return wrapped;
+        },
+    });
+}
+
+/**
+ * Proxy that resolves every property path against `getTarget()` when it is
+ * used, so swapping the underlying client (e.g. on key rotation) takes
+ * effect even for namespaces and methods grabbed earlier.
+ */
+export function liveClient<T extends object>(getTarget: () => T, path: PropertyKey[] = []): T {
+    const resolve = (): any => path.reduce<any>((obj, key) => obj?.[key], getTarget());
+    const cache = new Map<PropertyKey, any>();
+    return new Proxy({} as T, {
+        get(_, prop) {
+            const value = resolve()?.[prop];
+            if (typeof prop === 'symbol' || prop === 'then' || prop === 'constructor') return value;
+            if (typeof value === 'function') {
+                if (!cache.has(prop)) cache.set(prop, (...args: any[]) => resolve()[prop](...args));
+                return cache.get(prop);
+            }
+            if (value !== null && typeof value === 'object') {
+                if (!cache.has(prop)) cache.set(prop, liveClient(getTarget, [...path, prop]));
+                return cache.get(prop);
+            }
+            return value;
+        },
+    });
+}
@@ -0,0 +1,343 @@
+/**
+ * Offline outbox for writes. With `SDKOptions.outbox`, a `queue.enqueue`,
+ * `cache.set` or `gateway.billingLog` that cannot reach the API (connection
+ * error, timeout or 5xx after retries) is persisted to a store and the call
+ * rejects with `OutboxQueuedError`. Stored calls are replayed in order, with
+ * their original `Idempotency-Key`, once the API is reachable again.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { readFile, rename, writeFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { FetchAPI } from './_generated/runtime.js';
+import { AerostackError, CircuitOpenError, ClientClosedError, OutboxQueuedError, TimeoutError, parseErrorResponse, toAerostackError } from './errors.js';
+import type { Logger } from './logger.js';
+import { operationFromUrl } from './operations.js';
+import { idempotencyKeyOf, withIdempotencyHeaders } from './transport.js';
+import { isAbortError, isConnectionError, urlOf } from './utils.js';
+
+export interface OutboxEntry {
+    /** The call's `Idempotency-Key`; entries are deduplicated on it. */
+    id: string;
+    /** Operation name, e.g. `queue.enqueue`. */
+    operation: string;
+    url: string;
+    /** Request headers, without credentials. */
+    headers: Record<string, string>;
+    body: string;
+    /** When the call was first made (epoch ms). */
+    createdAt: number;
+    /** Replay attempts so far. */
+    attempts: number;
+    lastError?: string;
+}
+
+/** Durable storage for outbox entries. Implementations must keep insertion order. */
+export interface OutboxStore {
+    /** Every entry, oldest first. */
+    list(): Promise<OutboxEntry[]>;
+    /** Insert an entry, or update it in place if its id exists. */
+    put(entry: OutboxEntry): Promise<void>;
+    delete(id: string): Promise<void>;
+}
+
+export interface OutboxOptions {
+    /** Where entries are kept. Defaults to a `MemoryOutboxStore` (lost on exit). */
+    store?: OutboxStore;
+    /** Operations that go to the outbox. Defaults to `queue.enqueue`, `cache.set` and `gateway.billingLog`. */
+    operations?: string[];
+    /** Entries older than this are dropped as failed, in ms. Defaults to 24h. */
+    maxAgeMs?: number;
+    /** How often stored entries are replayed, in ms. Defaults to 30s. */
+    replayIntervalMs?: number;
+    /**
+     * Called when an entry is dropped: the API rejected it (4xx) or it
+     * exceeded `maxAgeMs`.
+     */
+    onPermanentFailure?: (entry: OutboxEntry, error: AerostackError) => void;
+}
+
+const DEFAULT_OPERATIONS = ['queue.enqueue', 'cache.set', 'gateway.billingLog'];
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_REPLAY_INTERVAL_MS = 30_000;
+// Credentials are added again on replay and never written to the store.
+const STORED_HEADERS = new Set(['content-type', 'idempotency-key', 'x-request-id', 'x-sdk-version']);
+
+/** Keeps entries in process memory. */
+export class MemoryOutboxStore implements OutboxStore {
+    private entries = new Map<string, OutboxEntry>();
+
+    async list(): Promise<OutboxEntry[]> {
+        return [...this.entries.values()].map(entry => ({ ...entry }));
+    }
+
+    async put(entry: OutboxEntry): Promise<void> {
+        this.entries.set(entry.id, { ...entry });
+    }
+
+    async delete(id: string): Promise<void> {
+        this.entries.delete(id);
+    }
+}
+
+/** Keeps entries in a JSON file, rewritten atomically on every change. */
+export class FileOutboxStore implements OutboxStore {
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(readonly path: string) { }
+
+    list(): Promise<OutboxEntry[]> {
+        return this.serialized(() => this.read());
+    }
+
+    put(entry: OutboxEntry): Promise<void> {
+        return this.serialized(async () => {
+            const entries = await this.read();
+            const index = entries.findIndex(e => e.id === entry.id);
+            if (index === -1) entries.push(entry);
+            else entries[index] = entry;
+            await this.write(entries);
+        });
+    }
+
+    delete(id: string): Promise<void> {
+        return this.serialized(async () => {
+            const entries = await this.read();
+            await this.write(entries.filter(e => e.id !== id));
+        });
+    }
+
+    // One read-modify-write at a time.
+    private serialized<T>(op: () => Promise<T>): Promise<T> {
+        const next = this.queue.then(op, op);
+        this.queue = next.catch(() => { });
+        return next;
+    }
+
+    private async read(): Promise<OutboxEntry[]> {
+        try {
+            return JSON.parse(await readFile(this.path, 'utf8')).entries ?? [];
+        } catch (e) {
+            if ((e as any)?.code === 'ENOENT') return [];
+            throw e;
+        }
+    }
+
+    private async write(entries: OutboxEntry[]): Promise<void> {
+        await mkdir(dirname(this.path), { recursive: true });
+        const tmp = `${this.path}.${process.pid}.tmp`;
+        await writeFile(tmp, JSON.stringify({ version: 1, entries }));
+        await rename(tmp, this.path);
+    }
+}
+
+/** The synchronous SQLite API shared by `better-sqlite3` and `node:sqlite`'s `DatabaseSync`. */
+export interface SqliteDatabase {
+    exec(sql: string): unknown;
+    prepare(sql: string): {
+        run(...params: unknown[]): unknown;
+        all(...params: unknown[]): unknown[];
+    };
+}
+
+/** Keeps entries in a SQLite table (created if missing). */
+export class SqliteOutboxStore implements OutboxStore {
+    constructor(private db: SqliteDatabase, private table: string = 'aerostack_outbox') {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) throw new Error(`Invalid outbox table name: ${table}`);
+        db.exec(`CREATE TABLE IF NOT EXISTS ${table} (seq INTEGER PRIMARY KEY AUTOINCREMENT, id TEXT NOT NULL UNIQUE, entry TEXT NOT NULL)`);
+    }
+
+    async list(): Promise<OutboxEntry[]> {
+        const rows = this.db.prepare(`SELECT entry FROM ${this.table} ORDER BY seq`).all() as Array<{ entry: string }>;
+        return rows.map(row => JSON.parse(row.entry));
+    }
+
+    async put(entry: OutboxEntry): Promise<void> {
+        this.db.prepare(`INSERT INTO ${this.table} (id, entry) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET entry = excluded.entry`)
+            .run(entry.id, JSON.stringify(entry));
+    }
+
+    async delete(id: string): Promise<void> {
+        this.db.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+    }
+}
+
+/** Errors the API may recover from: retrying later is worthwhile. */
+function isTransientStatus(status: number): boolean {
+    return status >= 500 || status === 408 || status === 429;
+}
+
+function isTransient(err: unknown): boolean {
+    if (isConnectionError(err) || isAbortError(err)) return true;
+    const status = (err as any)?.status;
+    if (typeof status === 'number') return isTransientStatus(status);
+    return err instanceof TimeoutError || err instanceof CircuitOpenError || err instanceof ClientClosedError;
+}
+
+// Names keep their casing so `withIdempotencyKey` finds the stored key on replay.
+function storedHeaders(headers: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(headers).filter(([name]) => STORED_HEADERS.has(name.toLowerCase())));
+}
+
+/**
+ * Persists failed writes and replays them in order. Created by the SDK from
+ * `SDKOptions.outbox` and exposed as `sdk.outbox`.
+ */
+export class Outbox {
+    private store: OutboxStore;
+    private operations: Set<string>;
+    private maxAgeMs: number;
+    private timer?: ReturnType<typeof setInterval>;
+    private flushing?: Promise<number>;
+    private size = 0;
+    private loaded: Promise<void>;
+    private closed = false;
+
+    /**
+     * @param send @internal — The SDK's fetch pipeline without the outbox,
+     * used for replays.
+     */
+    constructor(private options: OutboxOptions, private send: FetchAPI, private logger: Logger) {
+        this.store = options.store ?? new MemoryOutboxStore();
+        this.operations = new Set(options.operations ?? DEFAULT_OPERATIONS);
+        this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+        // Entries left by a previous process are replayed on the next interval.
+        this.loaded = this.store.list().then((entries) => {
+            this.size = entries.length;
+            if (this.size > 0) this.schedule();
+        }, (e) => {
+            this.logger.error({ error: e?.message ?? e }, 'Could not read the outbox store');
+        });
+    }
+
+    /** Stored entries, oldest first. */
+    async entries(): Promise<OutboxEntry[]> {
+        await this.loaded;
+        return this.store.list();
+    }
+
+    /**
+     * Replay stored entries in order now. Stops at the first entry the API
+     * still cannot take; resolves to the number of entries left.
+     */
+    flush(): Promise<number> {
+        this.flushing ??= this.replay().finally(() => {
+            this.flushing = undefined;
+        });
+        return this.flushing;
+    }
+
+    /** Stop the replay timer. Stored entries stay in the store. */
+    close(): void {
+        this.closed = true;
+        if (this.timer) clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    /** @internal — fetch that sends covered writes through the outbox. */
+    wrap(fetchApi: FetchAPI): FetchAPI {
+        return async (input, init) => {
+            const url = urlOf(input);
+            const operation = operationFromUrl(url).name;
+            if (!this.operations.has(operation) || typeof init?.body !== 'string') return fetchApi(input, init);
+
+            // The entry id doubles as the Idempotency-Key, so it must be known before the first attempt.
+            const id = idempotencyKeyOf(init) ?? randomUUID();
+            const request = withIdempotencyHeaders(url, init, id);
+
+            // Writes go behind stored ones so the API sees them in call order.
+            await this.loaded;
+            if (this.size > 0 && await this.flush() > 0) {
+                throw await this.add(id, operation, url, request);
+            }
+            let response: Response;
+            try {
+                response = await fetchApi(input, request);
+            } catch (e) {
+                if (!isTransient(e) || init.signal?.aborted) throw e;
+                throw await this.add(id, operation, url, request, e);
+            }
+            if (!isTransientStatus(response.status)) return response;
+            const error = await parseErrorResponse(response);
+            throw await this.add(id, operation, url, request, error);
+        };
+    }
+
+    private async add(id: string, operation: string, url: string, init: RequestInit & { headers: Record<string, string> }, cause?: unknown): Promise<OutboxQueuedError> {
+        const existing = (await this.store.list()).some(entry => entry.id === id);
+        if (!existing) {
+            await this.store.put({
+                id,
+                operation,
+                url,
+                headers: storedHeaders(init.headers),
+                body: init.body as string,
+                createdAt: Date.now(),
+                attempts: 0,
+                ...(cause !== undefined && { lastError: (cause as any)?.message ?? String(cause) }),
+            });
+            this.size++;
+            this.logger.warn({ operation, id }, 'Write stored in the outbox');
+        }
+        this.schedule();
+        return new OutboxQueuedError(`${operation} could not be sent and was stored in the outbox`, {
+            code: 'OUTBOX_QUEUED',
+            details: { id, operation },
+            cause,
+        });
+    }
+
+    private schedule(): void {
+        if (this.timer || this.closed) return;
+        this.timer = setInterval(() => { void this.flush().catch(() => { }); }, this.options.replayIntervalMs ?? DEFAULT_REPLAY_INTERVAL_MS);
+        this.timer.unref?.();
+    }
+
+    private async replay(): Promise<number> {
+        await this.loaded;
+        const entries = await this.store.list();
+        let left = entries.length;
+        for (const entry of entries) {
+            if (Date.now() - entry.createdAt > this.maxAgeMs) {
+                await this.drop(entry, new AerostackError(`Outbox entry expired after ${this.maxAgeMs}ms`, { code: 'OUTBOX_EXPIRED' }));
+                left--;
+                continue;
+            }
+            let error: unknown;
+            try {
+                const response = await this.send(entry.url, { method: 'POST', headers: entry.headers, body: entry.body });
+                if (response.ok) {
+                    await response.body?.cancel().catch(() => { });
+                    await this.store.delete(entry.id);
+                    left--;
+                    continue;
+                }
+                error = await parseErrorResponse(response);
+            } catch (e) {
+                error = e;
+            }
+            if (isTransient(error)) {
+                await this.store.put({ ...entry, attempts: entry.attempts + 1, lastError: (error as any)?.message ?? String(error) });
+                break;
+            }
+            await this.drop(entry, toAerostackError(error));
+            left--;
+        }
+        this.size = left;
+        if (left === 0 && this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        return left;
+    }
+
+    private async drop(entry: OutboxEntry, error: AerostackError): Promise<void> {
+        await this.store.delete(entry.id);
+        this.logger.error({ operation: entry.operation, id: entry.id, error: error.message }, 'Outbox entry failed permanently');
+        try {
+            this.options.onPermanentFailure?.(entry, error);
+        } catch (e) {
+            this.logger.error({ error: e }, 'onPermanentFailure callback error');
+        }
+    }
+}
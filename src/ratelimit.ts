@@ -0,0 +1,223 @@
+/**
+ * Client-side rate limiting: a token bucket plus a cap on requests in flight,
+ * globally and per service. Requests over the limits wait in a queue ordered
+ * by priority, then FIFO, instead of being sent and throttled by the server.
+ */
+
+import type { FetchAPI } from './_generated/runtime.js';
+import { operationFromUrl } from './operations.js';
+import { getRequestOptions } from './transport.js';
+import { urlOf } from './utils.js';
+
+export interface LimitOptions {
+    /** Sustained request rate (token bucket refill). Unset means no rate limit. */
+    requestsPerSecond?: number;
+    /** Requests that may be sent at once after idling. Defaults to `requestsPerSecond`. */
+    burst?: number;
+    /** Maximum requests in flight. Unset means unlimited. */
+    maxConcurrent?: number;
+}
+
+export type LimitedService = 'cache' | 'db' | 'queue' | 'storage' | 'ai' | 'gateway' | 'auth' | 'services';
+
+export interface RateLimitOptions extends LimitOptions {
+    /** Limits for one service, applied on top of the global ones. */
+    services?: Partial<Record<LimitedService, LimitOptions>>;
+}
+
+interface Waiter {
+    priority: number;
+    resolve: () => void;
+    reject: (reason: unknown) => void;
+    signal?: AbortSignal;
+    onAbort?: () => void;
+}
+
+/** One token bucket and concurrency cap. */
+class Limiter {
+    private tokens: number;
+    private refilledAt = Date.now();
+    private inFlight = 0;
+    private queue: Waiter[] = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private rate?: number;
+    private burst: number;
+    private maxConcurrent?: number;
+
+    constructor(options: LimitOptions) {
+        this.rate = options.requestsPerSecond;
+        this.burst = Math.max(1, options.burst ?? options.requestsPerSecond ?? 1);
+        this.maxConcurrent = options.maxConcurrent;
+        this.tokens = this.burst;
+    }
+
+    acquire(priority: number, signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) return Promise.reject(signal.reason);
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = { priority, resolve, reject, signal };
+            // Insert after every waiter of equal or higher priority: FIFO within a priority.
+            let index = this.queue.findIndex(w => w.priority < priority);
+            if (index === -1) index = this.queue.length;
+            this.queue.splice(index, 0, waiter);
+            if (signal) {
+                waiter.onAbort = () => {
+                    const at = this.queue.indexOf(waiter);
+                    if (at !== -1) this.queue.splice(at, 1);
+                    reject(signal.reason);
+                };
+                signal.addEventListener('abort', waiter.onAbort, { once: true });
+            }
+            this.drain();
+        });
+    }
+
+    release(): void {
+        this.inFlight--;
+        this.drain();
+    }
+
+    /** Reject every queued request and stop the refill timer. */
+    clear(reason: unknown): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        for (const waiter of this.queue.splice(0)) {
+            if (waiter.onAbort) waiter.signal!.removeEventListener('abort', waiter.onAbort);
+            waiter.reject(reason);
+        }
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.burst, this.tokens + ((now - this.refilledAt) * this.rate!) / 1000);
+        this.refilledAt = now;
+    }
+
+    private drain(): void {
+        while (this.queue.length > 0) {
+            if (this.maxConcurrent !== undefined && this.inFlight >= this.maxConcurrent) return;
+            if (this.rate !== undefined) {
+                this.refill();
+                if (this.tokens < 1) {
+                    if (!this.timer) {
+                        const wait = Math.ceil(((1 - this.tokens) * 1000) / this.rate);
+                        this.timer = setTimeout(() => {
+                            this.timer = null;
+                            this.drain();
+                        }, wait);
+                    }
+                    return;
+                }
+                this.tokens -= 1;
+            }
+            const waiter = this.queue.shift()!;
+            if (waiter.onAbort) waiter.signal!.removeEventListener('abort', waiter.onAbort);
+            this.inFlight++;
+            waiter.resolve();
+        }
+    }
+}
+
+/** Global and per-service limiters behind one `acquire`. */
+export class RateLimiter {
+    private global: Limiter | null;
+    private services = new Map<string, Limiter>();
+
+    constructor(options: RateLimitOptions) {
+        const { services, ...global } = options;
+        this.global = global.requestsPerSecond !== undefined || global.maxConcurrent !== undefined
+            ? new Limiter(global)
+            : null;
+        for (const [service, limits] of Object.entries(services ?? {})) {
+            if (limits) this.services.set(service, new Limiter(limits));
+        }
+    }
+
+    /**
+     * Wait for a slot for `service`. Resolves to a function that must be
+     * called once the request has completed. Rejects with the signal's reason
+     * if it aborts while queued.
+     */
+    async acquire(service: string, priority: number = 0, signal?: AbortSignal): Promise<() => void> {
+        const scoped = this.services.get(service);
+        if (scoped) await scoped.acquire(priority, signal);
+        try {
+            if (this.global) await this.global.acquire(priority, signal);
+        } catch (e) {
+            scoped?.release();
+            throw e;
+        }
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            this.global?.release();
+            scoped?.release();
+        };
+    }
+
+    /** Run `call` once a slot for `service` is free. */
+    async run<T>(service: string, call: () => Promise<T>, priority?: number, signal?: AbortSignal): Promise<T> {
+        const release = await this.acquire(service, priority, signal);
+        try {
+            return await call();
+        } finally {
+            release();
+        }
+    }
+
+    /** Reject every queued request with `reason`. */
+    clear(reason: unknown): void {
+        this.global?.clear(reason);
+        for (const limiter of this.services.values()) limiter.clear(reason);
+    }
+}
+
+/**
+ * Wrap a fetch implementation so every attempt waits for the limits of its
+ * service. `RequestOptions.priority` orders queued requests. A request keeps
+ * its concurrency slot until its body has been read, cancelled or has failed,
+ * so streamed responses count toward `maxConcurrent`.
+ */
+export function withRateLimit(fetchApi: FetchAPI, limiter: RateLimiter): FetchAPI {
+    return async (input, init) => {
+        const service = operationFromUrl(urlOf(input)).service;
+        const release = await limiter.acquire(service, getRequestOptions(init).priority, init?.signal ?? undefined);
+        let response: Response;
+        try {
+            response = await fetchApi(input, init);
+        } catch (e) {
+            release();
+            throw e;
+        }
+        return releaseAfterBody(response, release);
+    };
+}
+
+function releaseAfterBody(response: Response, release: () => void): Response {
+    if (!response.body) {
+        release();
+        return response;
+    }
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { done, value } = await reader.read();
+                if (done) {
+                    release();
+                    controller.close();
+                } else {
+                    controller.enqueue(value);
+                }
+            } catch (e) {
+                release();
+                controller.error(e);
+            }
+        },
+        cancel(reason) {
+            release();
+            return reader.cancel(reason);
+        },
+    });
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
@@ -2,6 +2,11 @@
  * Aerostack Realtime Client for Node.js SDK
  */
 
+import { createLogger, redactProtocols, type Logger } from './logger.js';
+import { traceCall, type Telemetry, type TraceCarrier } from './telemetry.js';
+import { settleWithin } from './utils.js';
+import type { Endpoints } from './failover.js';
+
 export type RealtimeEvent = 'INSERT' | 'UPDATE' | 'DELETE' | '*' | string;
 
 export interface RealtimeMessage {
@@ -43,9 +48,44 @@ export interface HistoryMessage {
 export interface NodeRealtimeOptions {
     serverUrl: string;
     apiKey?: string;
+    /** Called before each (re)connect for the current API key; takes precedence over `apiKey`. */
+    apiKeyProvider?: () => Promise<string | undefined>;
     token?: string;
     projectId?: string;
     maxReconnectAttempts?: number;
+    /** Structured logger; defaults to console warnings and errors. */
+    logger?: Logger;
+    /** Spans for connect, publish and receive. */
+    telemetry?: Telemetry;
+    /** WebSocket constructor. Defaults to the global `WebSocket`, then the `ws` package. */
+    webSocket?: new (url: string, protocols?: string[]) => any;
+    /** Resolves the WebSocket constructor when `webSocket` is unset; may resolve `undefined` to use the default. */
+    loadWebSocket?: () => Promise<(new (url: string, protocols?: string[]) => any) | undefined>;
+    /** fetch used for the history endpoint. Defaults to the global `fetch`. */
+    fetchApi?: (input: string, init?: RequestInit) => Promise<Response>;
+    /**
+     * Endpoint selection shared with the HTTP APIs. Each connect uses the
+     * current endpoint instead of `serverUrl`, a connection error marks it
+     * unhealthy, and the socket moves when the current endpoint changes.
+     */
+    endpoints?: Endpoints;
+}
+
+function realtimeUrl(serverUrl: string): string {
+    const uri = new URL(serverUrl);
+    uri.protocol = uri.protocol === 'https:' ? 'wss:' : 'ws:';
+    uri.pathname = uri.pathname.replace(/\/v1\/?$/, '') + '/api/realtime';
+    return uri.toString();
+}
+
+async function loadWebSocket(): Promise<any> {
+    if (typeof globalThis.WebSocket !== 'undefined') return globalThis.WebSocket;
+    try {
+        const ws = await import('ws');
+        return ws.default || ws;
+    } catch {
+        throw new Error('WebSocket not available. Install "ws" package.');
+    }
 }
 
 const BASE_RECONNECT_MS = 1000;
@@ -104,17 +144,44 @@ export class RealtimeSubscription<T = any> {
 
     get isSubscribed() { return this._isSubscribed; }
 
+    /** @internal — Re-send the subscribe frame on a new connection. */
+    _resubscribe(): void {
+        if (!this._isSubscribed) return;
+        this.client._send({
+            type: 'subscribe',
+            topic: this.topic,
+            filter: this.options.filter
+        });
+    }
+
     // ─── Phase 1: Pub/Sub — Publish custom events ─────────────────────────
     /** Publish a custom event to all subscribers on this channel */
     publish(event: string, data: any, options?: { persist?: boolean }): void {
-        this.client._send({
+        const message: RealtimeMessage = {
             type: 'publish',
             topic: this.topic,
             event,
             data,
             persist: options?.persist,
             id: this.client._generateId(),
-        });
+        };
+        const telemetry = this.client._telemetry;
+        if (!telemetry?.loaded) {
+            this.client._send(message);
+            return;
+        }
+        const span = telemetry.startSpan('realtime.publish', {
+            'aerostack.operation': 'realtime.publish',
+            'messaging.destination.name': this.topic,
+            'aerostack.realtime.event': event,
+        }, 'producer');
+        const startedAt = Date.now();
+        // Receivers continue this trace from the message.
+        const trace: TraceCarrier = {};
+        telemetry.inject(span, trace);
+        message['trace'] = trace;
+        // The span lasts until the frame is written, including any wait for a connection.
+        this.client._send(message, error => telemetry.end(span, 'realtime.publish', startedAt, error));
     }
 
     // ─── Phase 2: Chat History ────────────────────────────────────────────
@@ -154,7 +221,7 @@ export class RealtimeSubscription<T = any> {
         }
         // Catch-all
         this.callbacks.get('*')?.forEach(cb => {
-            try { cb(payload); } catch (e) { console.error('Realtime callback error:', e); }
+            try { cb(payload); } catch (e) { this.client._logger.error({ topic: this.topic, error: e }, 'Realtime callback error'); }
         });
     }
 }
@@ -164,6 +231,7 @@ export type RealtimeStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting
 export class NodeRealtimeClient {
     private wsUrl: string;
     private apiKey?: string;
+    private apiKeyProvider?: () => Promise<string | undefined>;
     private token?: string;
     private projectId?: string;
     private ws: WebSocket | null = null;
@@ -172,6 +240,8 @@ export class NodeRealtimeClient {
     private heartbeatTimer: any = null;
     private reconnectAttempts: number = 0;
     private _sendQueue: any[] = [];
+    // Callbacks for queued messages, run once each is written or dropped.
+    private _onSent: Map<object, (error?: unknown) => void> = new Map();
     private _connectingPromise: Promise<void> | null = null;
     private _status: RealtimeStatus = 'idle';
     private _statusListeners: Set<(s: RealtimeStatus) => void> = new Set();
@@ -180,17 +250,30 @@ export class NodeRealtimeClient {
     private _lastPong: number = 0;
     private _maxReconnectAttempts: number;
     private _maxRetriesListeners: Set<() => void> = new Set();
+    private _webSocket?: new (url: string, protocols?: string[]) => any;
+    private _loadWebSocket?: NodeRealtimeOptions['loadWebSocket'];
+    private _fetchApi?: (input: string, init?: RequestInit) => Promise<Response>;
+    private _endpoints?: Endpoints;
+    private _unsubscribeEndpoints?: () => void;
+    /** @internal */
+    _logger: Logger;
+    /** @internal */
+    _telemetry?: Telemetry;
 
     constructor(options: NodeRealtimeOptions) {
-        const uri = new URL(options.serverUrl);
-        uri.protocol = uri.protocol === 'https:' ? 'wss:' : 'ws:';
-        uri.pathname = uri.pathname.replace(/\/v1\/?$/, '') + '/api/realtime';
-        this.wsUrl = uri.toString();
+        this.wsUrl = realtimeUrl(options.serverUrl);
         this._httpBaseUrl = options.serverUrl.replace(/\/v1\/?$/, '');
         this.apiKey = options.apiKey;
+        this.apiKeyProvider = options.apiKeyProvider;
         this.token = options.token;
         this.projectId = options.projectId;
         this._maxReconnectAttempts = options.maxReconnectAttempts ?? Infinity;
+        this._logger = options.logger ?? createLogger();
+        this._telemetry = options.telemetry;
+        this._webSocket = options.webSocket;
+        this._loadWebSocket = options.loadWebSocket;
+        this._fetchApi = options.fetchApi;
+        this._endpoints = options.endpoints;
     }
 
     get status(): RealtimeStatus { return this._status; }
@@ -211,6 +294,34 @@ export class NodeRealtimeClient {
         this._statusListeners.forEach(cb => cb(s));
     }
 
+    /**
+     * Switch API keys. An open connection is re-established with the new key;
+     * subscriptions are replayed and messages sent meanwhile are queued.
+     */
+    setApiKey(apiKey: string | undefined): void {
+        if (apiKey === this.apiKey) return;
+        this.apiKey = apiKey;
+        if (!this.ws || this._status !== 'connected') return;
+
+        this._closeSocket();
+        this._logger.debug({}, 'Realtime re-authenticating with rotated API key');
+        this.connect().catch((e) => {
+            this._logger.error({ error: e?.message ?? e }, 'Realtime re-authentication failed');
+            this.scheduleReconnect();
+        });
+    }
+
+    // Reconnect to the newly selected endpoint; subscriptions are replayed as on rotation.
+    private _moveEndpoint(): void {
+        if (!this.ws || this._status !== 'connected' || realtimeUrl(this._endpoints!.current) === this.wsUrl) return;
+        this._closeSocket();
+        this._logger.debug({}, 'Realtime moving to another endpoint');
+        this.connect().catch((e) => {
+            this._logger.error({ error: e?.message ?? e }, 'Realtime reconnect failed');
+            this.scheduleReconnect();
+        });
+    }
+
     setToken(newToken: string): void {
         this.token = newToken;
         this._send({ type: 'auth', token: newToken });
@@ -219,7 +330,10 @@ export class NodeRealtimeClient {
     async connect(): Promise<void> {
         if (this.ws && this._status === 'connected') return;
         if (this._connectingPromise) return this._connectingPromise;
-        this._connectingPromise = this._doConnect().finally(() => {
+        const connecting = this._telemetry
+            ? traceCall(this._telemetry, 'realtime.connect', () => this._doConnect(), { 'server.address': new URL(this.wsUrl).hostname })
+            : this._doConnect();
+        this._connectingPromise = connecting.finally(() => {
             this._connectingPromise = null;
         });
         return this._connectingPromise;
@@ -227,23 +341,25 @@ export class NodeRealtimeClient {
 
     private async _doConnect(): Promise<void> {
         this._setStatus('connecting');
+        const serverUrl = this._endpoints?.current;
+        if (serverUrl) {
+            this.wsUrl = realtimeUrl(serverUrl);
+            this._unsubscribeEndpoints ??= this._endpoints!.onChange(() => this._moveEndpoint());
+        }
         const url = new URL(this.wsUrl);
         if (this.projectId) url.searchParams.set('projectId', this.projectId);
 
-        return new Promise(async (resolve, reject) => {
-            try {
-                let WsClass: any;
-                if (typeof globalThis.WebSocket !== 'undefined') {
-                    WsClass = globalThis.WebSocket;
-                } else {
-                    try {
-                        const ws = await import('ws');
-                        WsClass = ws.default || ws;
-                    } catch {
-                        throw new Error('WebSocket not available. Install "ws" package.');
-                    }
-                }
+        let WsClass: any;
+        try {
+            if (this.apiKeyProvider) this.apiKey = await this.apiKeyProvider();
+            WsClass = this._webSocket ?? await this._loadWebSocket?.() ?? await loadWebSocket();
+        } catch (e) {
+            this._setStatus('disconnected');
+            throw e;
+        }
 
+        return new Promise((resolve, reject) => {
+            try {
                 // SECURITY: Pass credentials via Sec-WebSocket-Protocol header — never as URL query params
                 // (URL params appear in CDN logs, browser history, and Referer headers).
                 const protocols: string[] = [];
@@ -251,18 +367,23 @@ export class NodeRealtimeClient {
                 if (this.token) protocols.push(`aerostack-token.${this.token}`);
                 if (protocols.length > 0) protocols.push('aerostack-v1');
                 const protocolsArg = protocols.length > 0 ? protocols : undefined;
+                this._logger.debug({ url: url.toString(), protocols: redactProtocols(protocols) }, 'Realtime connecting');
                 this.ws = protocolsArg ? new WsClass(url.toString(), protocolsArg) : new WsClass(url.toString());
 
                 this.ws!.onopen = () => {
                     this._setStatus('connected');
+                    this._logger.debug({ url: url.toString() }, 'Realtime connected');
                     this.reconnectAttempts = 0;
                     this._lastPong = Date.now();
                     this.startHeartbeat();
-                    while (this._sendQueue.length > 0) {
-                        this.ws!.send(JSON.stringify(this._sendQueue.shift()));
-                    }
-                    for (const sub of this.subscriptions.values()) {
-                        if (sub.isSubscribed) sub.subscribe();
+                    // Subscriptions are replayed from their current state below, so drop
+                    // queued (un)subscribe frames rather than sending them twice.
+                    const queued = this._sendQueue.filter(m => m.type !== 'subscribe' && m.type !== 'unsubscribe');
+                    this._sendQueue = [];
+                    for (const sub of this.subscriptions.values()) sub._resubscribe();
+                    for (const msg of queued) {
+                        this.ws!.send(JSON.stringify(msg));
+                        this._settleSent(msg);
                     }
                     resolve();
                 };
@@ -273,11 +394,12 @@ export class NodeRealtimeClient {
                         const data: RealtimeMessage = JSON.parse(raw);
                         this.handleMessage(data);
                     } catch (e) {
-                        console.error('Realtime message parse error:', e);
+                        this._logger.error({ error: e }, 'Realtime message parse error');
                     }
                 };
 
                 this.ws!.onclose = () => {
+                    this._logger.debug({ url: url.toString() }, 'Realtime connection closed');
                     this._setStatus('reconnecting');
                     this.stopHeartbeat();
                     this.ws = null;
@@ -285,7 +407,8 @@ export class NodeRealtimeClient {
                 };
 
                 this.ws!.onerror = (err: any) => {
-                    console.error('Realtime connection error:', err);
+                    this._logger.error({ error: err?.message ?? err }, 'Realtime connection error');
+                    if (serverUrl && this._status === 'connecting') this._endpoints!.fail(serverUrl, 'realtime connection error');
                     this._setStatus('disconnected');
                     reject(err);
                 };
@@ -300,11 +423,49 @@ export class NodeRealtimeClient {
         this._setStatus('disconnected');
         this.stopReconnect();
         this.stopHeartbeat();
-        if (this.ws) {
-            this.ws.close();
-            this.ws = null;
-        }
+        this._closeSocket();
+        for (const msg of this._sendQueue) this._settleSent(msg, new Error('Realtime disconnected before the message was sent'));
         this._sendQueue = [];
+        this._unsubscribeEndpoints?.();
+        this._unsubscribeEndpoints = undefined;
+    }
+
+    /**
+     * Shut down gracefully: wait for a pending (re)connection so queued
+     * messages are sent, unsubscribe every channel, let the socket flush its
+     * send buffer, then disconnect. Gives up after `timeoutMs` (default 5s)
+     * and drops whatever is still queued.
+     */
+    async close(options: { timeoutMs?: number } = {}): Promise<void> {
+        const deadline = Date.now() + (options.timeoutMs ?? 5000);
+        if (this._sendQueue.length > 0 && (this._status === 'connecting' || this._status === 'reconnecting')) {
+            this.stopReconnect();
+            await settleWithin(this.connect(), deadline - Date.now());
+        }
+        if (this.ws && this._status === 'connected') {
+            for (const sub of [...this.subscriptions.values()]) sub.unsubscribe();
+            while ((this.ws.bufferedAmount ?? 0) > 0 && Date.now() < deadline) {
+                await new Promise(resolve => setTimeout(resolve, 10));
+            }
+        }
+        if (this._sendQueue.length > 0) {
+            this._logger.warn({ dropped: this._sendQueue.length }, 'Realtime closed with unsent messages');
+        }
+        this.subscriptions.clear();
+        this.disconnect();
+    }
+
+    /** Close the socket without triggering the reconnect logic in its handlers. */
+    private _closeSocket(): void {
+        const ws = this.ws;
+        if (!ws) return;
+        ws.onopen = null;
+        ws.onclose = null;
+        ws.onerror = null;
+        ws.onmessage = null;
+        this.stopHeartbeat();
+        this.ws = null;
+        ws.close();
     }
 
     channel<T = any>(topic: string, options: RealtimeSubscriptionOptions = {}): RealtimeSubscription<T> {
@@ -342,15 +503,24 @@ export class NodeRealtimeClient {
         this.subscriptions.delete(topic);
     }
 
-    /** @internal */
-    _send(data: any): void {
+    /** @internal — Send now, or queue until connected. `onSent` runs once the frame is written or dropped. */
+    _send(data: any, onSent?: (error?: unknown) => void): void {
         if (this.ws && this._status === 'connected') {
             this.ws.send(JSON.stringify(data));
+            onSent?.();
         } else {
             this._sendQueue.push(data);
+            if (onSent) this._onSent.set(data, onSent);
         }
     }
 
+    private _settleSent(data: any, error?: unknown): void {
+        const onSent = this._onSent.get(data);
+        if (!onSent) return;
+        this._onSent.delete(data);
+        onSent(error);
+    }
+
     /** @internal — Fetch chat/event history via REST API */
     async _fetchHistory(room: string, limit: number = 50, before?: number): Promise<HistoryMessage[]> {
         const url = new URL(`${this._httpBaseUrl}/api/v1/public/realtime/history`);
@@ -362,7 +532,7 @@ export class NodeRealtimeClient {
         if (this.apiKey) headers['X-Aerostack-Key'] = this.apiKey;
         if (this.token) headers['Authorization'] = `Bearer ${this.token}`;
 
-        const res = await fetch(url.toString(), { headers });
+        const res = await (this._fetchApi ?? fetch)(url.toString(), { headers });
         const json = await res.json() as any;
         return json.messages || [];
     }
@@ -382,7 +552,24 @@ export class NodeRealtimeClient {
         // Route to subscription: db_change, chat_message, event, presence:*
         if (data.type === 'db_change' || data.type === 'chat_message' || data.type === 'event') {
             const sub = this.subscriptions.get(data.topic);
-            if (sub) sub._emit(data as any);
+            if (sub && this._telemetry?.loaded) {
+                const span = this._telemetry.startSpan('realtime.receive', {
+                    'aerostack.operation': 'realtime.receive',
+                    'messaging.destination.name': data.topic,
+                    'aerostack.realtime.type': data.type,
+                    ...(data['event'] ? { 'aerostack.realtime.event': data['event'] } : {}),
+                }, 'consumer', data['trace']);
+                const startedAt = Date.now();
+                try {
+                    this._telemetry.withSpan(span, () => sub._emit(data as any));
+                    this._telemetry.end(span, 'realtime.receive', startedAt);
+                } catch (e) {
+                    this._telemetry.end(span, 'realtime.receive', startedAt, e);
+                    throw e;
+                }
+            } else if (sub) {
+                sub._emit(data as any);
+            }
         }
 
         // Re-key subscription on server-confirmed topic (for non-TS SDKs compatibility)
@@ -402,7 +589,7 @@ export class NodeRealtimeClient {
         this.heartbeatTimer = setInterval(() => {
             this._send({ type: 'ping' });
             if (this._lastPong > 0 && Date.now() - this._lastPong > 70000) {
-                console.warn('Realtime: no pong received, forcing reconnect');
+                this._logger.warn({ lastPong: this._lastPong }, 'Realtime: no pong received, forcing reconnect');
                 this.ws?.close();
             }
         }, 30000);
@@ -0,0 +1,69 @@
+/**
+ * Result-returning ("safe") mode: operations resolve to a discriminated
+ * union instead of throwing.
+ */
+
+import { toAerostackError, type AerostackError } from './errors.js';
+
+export type Result<T, E = AerostackError> =
+    | { ok: true; value: T; error?: undefined }
+    | { ok: false; error: E; value?: undefined };
+
+export function ok<T>(value: T): Result<T, never> {
+    return { ok: true, value };
+}
+
+export function err<E = AerostackError>(error: E): Result<never, E> {
+    return { ok: false, error };
+}
+
+/** Run an async call and capture its outcome as a `Result`. */
+export async function toResult<T>(call: () => Promise<T>): Promise<Result<T>> {
+    try {
+        return ok(await call());
+    } catch (e) {
+        return err(toAerostackError(e));
+    }
+}
+
+/**
+ * `T` with every async method returning `Promise<Result<...>>`.
+ * Synchronous methods and plain properties keep their types.
+ */
+export type SafeClient<T> = {
+    [K in keyof T]: T[K] extends (...args: infer A) => Promise<infer R>
+        ? (...args: A) => Promise<Result<R>>
+        : T[K] extends (...args: any[]) => any
+            ? T[K]
+            : T[K] extends object
+                ? SafeClient<T[K]>
+                : T[K];
+};
+
+/**
+ * Wrap a client so async methods resolve to `Result`s. Nested namespaces
+ * (`safe.cache`, `safe.rpc.ai.search`) are wrapped lazily on access.
+ */
+export function safeClient<T extends object>(target: T): SafeClient<T> {
+    const wrappers = new Map<PropertyKey, { source: any; wrapped: any }>();
+    return new Proxy(target, {
+        get(obj, prop, receiver) {
+            const value: any = Reflect.get(obj, prop, receiver);
+            if (typeof prop === 'symbol' || prop === 'then' || prop === 'constructor') return value;
+            const cached = wrappers.get(prop);
+            if (cached && cached.source === value) return cached.wrapped;
+            let wrapped: any = value;
+            if (typeof value === 'function') {
+                wrapped = (...args: any[]) => {
+                    const out = value.apply(obj, args);
+                    if (out && typeof out.then === 'function') return toResult(() => out);
+                    return out;
+                };
+            } else if (value !== null && typeof value === 'object') {
+                wrapped = safeClient(value);
+            }
+            wrappers.set(prop, { source: value, wrapped });
+            return wrapped;
+        },
+    }) as SafeClient<T>;
+}
@@ -0,0 +1,139 @@
+/**
+ * Retry policy for HTTP calls made by the generated APIs and `sdk.rpc`.
+ */
+
+import type { FetchAPI } from './_generated/runtime.js';
+import { operationFromUrl, type OperationInfo } from './operations.js';
+import { AerostackError } from './errors.js';
+import { getRequestOptions, type RequestOptions } from './transport.js';
+import { isAbortError, isConnectionError, sleep, urlOf } from './utils.js';
+
+export interface RetryPolicy {
+    /** Total attempts, including the first one. */
+    maxAttempts: number;
+    /** Delay before the first retry, in ms. */
+    initialDelayMs: number;
+    /** Upper bound for a single delay, in ms. A longer `Retry-After` is not waited for. */
+    maxDelayMs: number;
+    /** Factor the delay grows by on each attempt. */
+    backoffMultiplier: number;
+    /** Fraction of each delay that is randomised (0 = none, 1 = full jitter). */
+    jitter: number;
+    /** HTTP statuses that are retried. */
+    retryableStatusCodes: number[];
+    /** Retry requests that failed before a response arrived. */
+    retryConnectionErrors: boolean;
+    /** Wait for the server's `Retry-After` header when it sends one. */
+    respectRetryAfter: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    initialDelayMs: 250,
+    maxDelayMs: 10000,
+    backoffMultiplier: 2,
+    jitter: 0.3,
+    retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+    retryConnectionErrors: true,
+    respectRetryAfter: true,
+};
+
+/** Merge user options over the defaults. `false` disables retries entirely. */
+export function resolveRetryPolicy(option?: Partial<RetryPolicy> | false): RetryPolicy | null {
+    if (option === false) return null;
+    return { ...DEFAULT_RETRY_POLICY, ...option };
+}
+
+/**
+ * Policy for a single call. Only idempotent operations retry by default;
+ * a per-call `retry` option forces retries on or off.
+ */
+function policyFor(
+    base: RetryPolicy | null,
+    operation: OperationInfo,
+    override: RequestOptions['retry'],
+): RetryPolicy | null {
+    if (override === false) return null;
+    if (override === true) return base ?? DEFAULT_RETRY_POLICY;
+    if (override) return { ...(base ?? DEFAULT_RETRY_POLICY), ...override };
+    return operation.idempotent ? base : null;
+}
+
+/** Delay before retry number `retry` (1-based), with jitter applied. */
+export function backoffDelay(retry: number, policy: RetryPolicy): number {
+    const delay = Math.min(policy.initialDelayMs * Math.pow(policy.backoffMultiplier, retry - 1), policy.maxDelayMs);
+    return delay - delay * policy.jitter * Math.random();
+}
+
+/** Parse a `Retry-After` header (delta-seconds or HTTP date) into ms. */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Streams can only be sent once; everything the generated APIs build can be resent.
+function isReplayable(body: unknown): boolean {
+    return !(typeof ReadableStream !== 'undefined' && body instanceof ReadableStream);
+}
+
+/** Wrap a fetch implementation with the retry policy. */
+export function withRetry(fetchApi: FetchAPI, policy: RetryPolicy | null): FetchAPI {
+    return async (input, init) => {
+        const active = policyFor(policy, operationFromUrl(urlOf(input)), getRequestOptions(init).retry);
+        if (!active || !isReplayable(init?.body)) return fetchApi(input, init);
+
+        for (let attempt = 1; ; attempt++) {
+            let delay: number;
+            try {
+                const response = await fetchApi(input, init);
+                if (attempt >= active.maxAttempts || !active.retryableStatusCodes.includes(response.status)) {
+                    return response;
+                }
+                const retryAfter = active.respectRetryAfter
+                    ? parseRetryAfter(response.headers.get('Retry-After'))
+                    : undefined;
+                if (retryAfter !== undefined && retryAfter > active.maxDelayMs) return response;
+                delay = retryAfter ?? backoffDelay(attempt, active);
+                await response.body?.cancel().catch(() => { });
+            } catch (e) {
+                // Only connection failures are retried: SDK errors raised inside the pipeline (e.g. a
+                // cassette mismatch) and bugs in custom fetch code would fail the same way again.
+                if (attempt >= active.maxAttempts || !active.retryConnectionErrors || e instanceof AerostackError
+                    || !isConnectionError(e) || init?.signal?.aborted) throw e;
+                delay = backoffDelay(attempt, active);
+            }
+            await sleep(delay, init?.signal);
+        }
+    };
+}
+
+function isRetryableError(err: any, policy: RetryPolicy): boolean {
+    if (isAbortError(err)) return false;
+    const status = err?.status ?? err?.statusCode ?? err?.response?.status;
+    if (typeof status === 'number') return policy.retryableStatusCodes.includes(status);
+    return isConnectionError(err) && policy.retryConnectionErrors;
+}
+
+/**
+ * Retry an `sdk.rpc` call. Errors carrying a retryable status are retried,
+ * as are connection failures (`fetch failed`, `ECONNRESET`, ...).
+ */
+export async function retryCall<T>(
+    operation: OperationInfo,
+    call: () => Promise<T>,
+    policy: RetryPolicy | null,
+): Promise<T> {
+    const active = policyFor(policy, operation, undefined);
+    if (!active) return call();
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await call();
+        } catch (e) {
+            if (attempt >= active.maxAttempts || !isRetryableError(e, active)) throw e;
+            await sleep(backoffDelay(attempt, active));
+        }
+    }
+}
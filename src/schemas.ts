@@ -0,0 +1,272 @@
+/**
+ * Zod schemas for the JSON bodies the Aerostack API returns.
+ *
+ * These describe the wire format (e.g. `exists`, `list_complete`), not the
+ * camel-cased models produced by the generated `*FromJSON` functions. Optional
+ * fields accept `null` because the generated mappers treat it as absent.
+ */
+
+import { z } from 'zod';
+import {
+    ChatCompletionResponseChoicesInnerFinishReasonEnum,
+    ChatMessageRoleEnum,
+    JobRecordStatusEnum,
+} from './_generated/models/index.js';
+
+function enumOf<T extends Record<string, string>>(values: T) {
+    return z.enum(Object.values(values) as [T[keyof T], ...Array<T[keyof T]>]);
+}
+
+const json = z.record(z.string(), z.any());
+// Generated mappers run dates through `new Date(...)`, which accepts both.
+const timestamp = z.union([z.string(), z.number()]);
+
+// ─── Shared models ──────────────────────────────────────────────
+
+export const UserSchema = z.object({
+    id: z.string().nullish(),
+    email: z.string().nullish(),
+    name: z.string().nullish(),
+    createdAt: timestamp.nullish(),
+    metadata: json.nullish(),
+});
+
+export const JobRecordSchema = z.object({
+    id: z.string().nullish(),
+    type: z.string().nullish(),
+    data: json.nullish(),
+    status: enumOf(JobRecordStatusEnum).nullish(),
+    projectId: z.string().nullish(),
+    createdAt: timestamp.nullish(),
+});
+
+export const StorageObjectSchema = z.object({
+    key: z.string().nullish(),
+    size: z.number().nullish(),
+    lastModified: timestamp.nullish(),
+    contentType: z.string().nullish(),
+    etag: z.string().nullish(),
+});
+
+export const SearchResultSchema = z.object({
+    id: z.string().nullish(),
+    content: z.string().nullish(),
+    score: z.number().nullish(),
+    type: z.string().nullish(),
+    metadata: json.nullish(),
+});
+
+export const ChatMessageSchema = z.object({
+    role: enumOf(ChatMessageRoleEnum),
+    content: z.string(),
+});
+
+export const TokenUsageSchema = z.object({
+    prompt_tokens: z.number().nullish(),
+    completion_tokens: z.number().nullish(),
+    total_tokens: z.number().nullish(),
+});
+
+export const TokenWalletSchema = z.object({
+    balance: z.number().nullish(),
+    total_consumed: z.number().nullish(),
+});
+
+const SuccessSchema = z.object({
+    success: z.boolean().nullish(),
+});
+
+// ─── Responses ──────────────────────────────────────────────────
+
+export const AuthResponseSchema = z.object({
+    token: z.string().nullish(),
+    user: UserSchema.nullish(),
+    expiresAt: timestamp.nullish(),
+});
+
+export const CacheGetResponseSchema = z.object({
+    value: z.any(),
+    exists: z.boolean().nullish(),
+});
+
+export const CacheGetManyResponseSchema = z.object({
+    results: z.array(z.object({
+        key: z.string().nullish(),
+        value: z.any(),
+        exists: z.boolean().nullish(),
+    })).nullish(),
+});
+
+export const CacheSetManyResponseSchema = SuccessSchema.extend({
+    count: z.number().nullish(),
+});
+
+export const CacheDeleteManyResponseSchema = SuccessSchema.extend({
+    count: z.number().nullish(),
+    deleted: z.number().nullish(),
+});
+
+export const CacheFlushResponseSchema = SuccessSchema.extend({
+    deleted: z.number().nullish(),
+});
+
+export const CacheIncrementResponseSchema = z.object({
+    value: z.number().nullish(),
+});
+
+export const CacheKeysResponseSchema = z.object({
+    keys: z.array(z.string()).nullish(),
+    truncated: z.boolean().nullish(),
+});
+
+export const CacheListResultSchema = z.object({
+    keys: z.array(z.object({
+        key: z.string().nullish(),
+        expiration: z.number().nullish(),
+    })).nullish(),
+    list_complete: z.boolean().nullish(),
+    cursor: z.string().nullish(),
+});
+
+export const DbQueryResultSchema = z.object({
+    results: z.array(json).nullish(),
+    count: z.number().nullish(),
+});
+
+export const DbBatchResultSchema = SuccessSchema.extend({
+    results: z.array(SuccessSchema.extend({
+        results: z.array(json).nullish(),
+        error: z.string().nullish(),
+    })).nullish(),
+});
+
+export const QueueEnqueueResponseSchema = SuccessSchema.extend({
+    jobId: z.string().nullish(),
+});
+
+export const QueueGetJobResponseSchema = z.object({
+    job: JobRecordSchema.nullish(),
+    exists: z.boolean().nullish(),
+});
+
+export const QueueListJobsResponseSchema = z.object({
+    jobs: z.array(JobRecordSchema).nullish(),
+    list_complete: z.boolean().nullish(),
+    cursor: z.string().nullish(),
+});
+
+export const QueueCancelJobResponseSchema = SuccessSchema.extend({
+    note: z.string().nullish(),
+});
+
+export const StorageUrlResponseSchema = SuccessSchema.extend({
+    url: z.string().nullish(),
+});
+
+export const StorageListResultSchema = z.object({
+    objects: z.array(StorageObjectSchema).nullish(),
+    truncated: z.boolean().nullish(),
+    cursor: z.string().nullish(),
+});
+
+export const StorageExistsResponseSchema = z.object({
+    exists: z.boolean().nullish(),
+});
+
+export const StorageMetadataSchema = z.object({
+    exists: z.boolean().nullish(),
+    size: z.number().nullish(),
+    contentType: z.string().nullish(),
+    lastModified: timestamp.nullish(),
+    etag: z.string().nullish(),
+});
+
+export const ChatCompletionResponseSchema = z.object({
+    id: z.string().nullish(),
+    object: z.string().nullish(),
+    created: z.number().nullish(),
+    model: z.string().nullish(),
+    choices: z.array(z.object({
+        index: z.number().nullish(),
+        message: ChatMessageSchema.nullish(),
+        finish_reason: enumOf(ChatCompletionResponseChoicesInnerFinishReasonEnum).nullish(),
+    })).nullish(),
+    usage: TokenUsageSchema.nullish(),
+});
+
+export const SearchQueryResponseSchema = z.object({
+    results: z.array(SearchResultSchema).nullish(),
+});
+
+export const SearchGetResponseSchema = z.object({
+    result: SearchResultSchema.nullish(),
+    exists: z.boolean().nullish(),
+});
+
+export const SearchCountResponseSchema = z.object({
+    count: z.number().nullish(),
+});
+
+export const ListTypesResponseSchema = z.object({
+    types: z.array(z.object({
+        type: z.string().nullish(),
+        count: z.number().nullish(),
+    })).nullish(),
+});
+
+export const ServicesInvokeResponseSchema = SuccessSchema.extend({
+    result: z.any(),
+});
+
+export const GatewayBillingLogResponseSchema = SuccessSchema.extend({
+    loggedUnits: z.number().nullish(),
+});
+
+export const GatewayGetWalletResponseSchema = z.object({
+    wallet: TokenWalletSchema.nullish(),
+});
+
+/** Response schema per operation name (see `operations.ts`). */
+export const RESPONSE_SCHEMAS: Record<string, z.ZodTypeAny> = {
+    'auth.signin': AuthResponseSchema,
+    'auth.signup': AuthResponseSchema,
+    'cache.get': CacheGetResponseSchema,
+    'cache.set': SuccessSchema,
+    'cache.delete': SuccessSchema,
+    'cache.getMany': CacheGetManyResponseSchema,
+    'cache.setMany': CacheSetManyResponseSchema,
+    'cache.deleteMany': CacheDeleteManyResponseSchema,
+    'cache.list': CacheListResultSchema,
+    'cache.keys': CacheKeysResponseSchema,
+    'cache.flush': CacheFlushResponseSchema,
+    'cache.expire': SuccessSchema,
+    'cache.increment': CacheIncrementResponseSchema,
+    'db.query': DbQueryResultSchema,
+    'db.batch': DbBatchResultSchema,
+    'queue.enqueue': QueueEnqueueResponseSchema,
+    'queue.getJob': QueueGetJobResponseSchema,
+    'queue.listJobs': QueueListJobsResponseSchema,
+    'queue.cancelJob': QueueCancelJobResponseSchema,
+    'storage.upload': StorageUrlResponseSchema,
+    'storage.getUrl': StorageUrlResponseSchema,
+    'storage.copy': StorageUrlResponseSchema,
+    'storage.move': StorageUrlResponseSchema,
+    'storage.delete': SuccessSchema,
+    'storage.list': StorageListResultSchema,
+    'storage.exists': StorageExistsResponseSchema,
+    'storage.getMetadata': StorageMetadataSchema,
+    'ai.chat': ChatCompletionResponseSchema,
+    'ai.search.ingest': SuccessSchema,
+    'ai.search.query': SearchQueryResponseSchema,
+    'ai.search.get': SearchGetResponseSchema,
+    'ai.search.count': SearchCountResponseSchema,
+    'ai.search.listTypes': ListTypesResponseSchema,
+    'ai.search.update': SuccessSchema,
+    'ai.search.delete': SuccessSchema,
+    'ai.search.deleteByType': SuccessSchema,
+    'ai.search.configure': SuccessSchema,
+    'services.invoke': ServicesInvokeResponseSchema,
+    'gateway.chat.completions': ChatCompletionResponseSchema,
+    'gateway.billingLog': GatewayBillingLogResponseSchema,
+    'gateway.getWallet': GatewayGetWalletResponseSchema,
+};
@@ -1,6 +1,25 @@
 import * as gen from './_generated/index.js';
 import { NodeRealtimeClient } from './realtime.js';
 import { AerostackClient } from '@aerostack/core';
+import { AerostackError, ClientClosedError, errorMiddleware, parseErrorResponse, TimeoutError } from './errors.js';
+import { interceptClient, liveClient } from './operations.js';
+import { Credentials, withCredentials, type CredentialsOption } from './credentials.js';
+import { RateLimiter, withRateLimit, type RateLimitOptions } from './ratelimit.js';
+import { resolveRetryPolicy, retryCall, withRetry, type RetryPolicy } from './retry.js';
+import { requestInit, withIdempotencyKey, withTimeout, type RequestOptions } from './transport.js';
+import { safeClient, type SafeClient } from './result.js';
+import { isCapturingResponse, metadataMiddleware, recordResponse, responseClient, withResponseMetadata, type ResponseClient, type WithResponse } from './metadata.js';
+import { validationMiddleware, type ValidateResponsesMode } from './validation.js';
+import { createLogger, loggingMiddleware, redactHeaders, type Logger, type LogLevel } from './logger.js';
+import { createTelemetry, telemetryMiddleware, tokenUsageAttributes, traceCall, type Telemetry, type TelemetryOptions } from './telemetry.js';
+import { MemoryBackend } from './memory.js';
+import { ConnectionPool, type AgentOptions, type Dispatcher } from './agent.js';
+import { Endpoints, withFailover, type FailoverOptions } from './failover.js';
+import { Outbox, type OutboxOptions } from './outbox.js';
+import { CACHE_BULK_LIMITS, CacheNamespace, LocalCache, runChunked, type BulkOptions, type CacheNamespaceOptions, type CacheScanEntry, type CacheScanOptions, type LocalCacheOptions } from './cache.js';
+import { loadConfig, type LoadConfigOptions } from './config.js';
+import { CircuitBreaker, withCircuitBreaker, type CircuitBreakerOptions, type CircuitState, type CircuitStateChange } from './breaker.js';
+import { settleWithin, sleep } from './utils.js';
 
 export interface SDKOptions {
     /** 
@@ -13,40 +32,249 @@ export interface SDKOptions {
     serverUrl?: string;
     /** Alias for serverUrl for backward compatibility */
     serverURL?: string;
+    /**
+     * Regional server URLs in order of preference; takes precedence over
+     * `serverUrl`. The HTTP APIs, `sdk.rpc` and realtime use the first healthy
+     * one. Connection errors and 5xx responses mark an endpoint unhealthy
+     * until a background probe sees it recover.
+     *
+     * @example
+     * serverUrls: ['https://eu.api.aerostack.dev/v1', 'https://us.api.aerostack.dev/v1']
+     */
+    serverUrls?: string[];
+    /** Probe settings for `serverUrls`. */
+    failover?: FailoverOptions;
     maxReconnectAttempts?: number;
     projectId?: string;
+    /**
+     * Retry policy for the generated APIs and `sdk.rpc`. Only idempotent
+     * operations are retried unless a call opts in with `{ retry: true }`.
+     * Pass `false` to disable retries.
+     */
+    retry?: Partial<RetryPolicy> | false;
+    /**
+     * Default per-call timeout in ms for the generated APIs. A call that gets
+     * no response in time rejects with `TimeoutError`. Unset means no timeout.
+     * Also applies to `streamGateway` until the response headers arrive; the
+     * streamed body itself is not timed.
+     */
+    timeoutMs?: number;
+    /**
+     * Check response bodies against the bundled zod schemas.
+     * `'warn'` logs mismatches, `'strict'` rejects with `ResponseValidationError`.
+     * Defaults to `'off'`.
+     */
+    validateResponses?: ValidateResponsesMode;
+    /**
+     * Structured logger (pino, bunyan, winston, `console`, ...) for HTTP calls,
+     * streaming and realtime. Credentials are redacted before logging.
+     * Defaults to console warnings and errors only.
+     */
+    logger?: Logger;
+    /** Minimum level passed to `logger`. Defaults to `'info'` (`'warn'` without a logger). */
+    logLevel?: LogLevel;
+    /**
+     * OpenTelemetry spans and metrics for every operation (`cache.get`,
+     * `db.query`, ...), plus W3C trace context propagation. `true` uses the
+     * global tracer and meter providers. Requires the optional
+     * `@opentelemetry/api` peer dependency.
+     */
+    telemetry?: boolean | TelemetryOptions;
+    /**
+     * API key source: a key, `{ env: 'VAR_NAME' }`, or an async provider that
+     * is called again when the key expires or a request fails with 401.
+     * Takes precedence over `apiKey`.
+     */
+    credentials?: CredentialsOption;
+    /**
+     * Client-side token bucket and max-in-flight limits, globally and per
+     * service. Requests over a limit wait in a priority-then-FIFO queue.
+     *
+     * @example
+     * rateLimit: { maxConcurrent: 50, services: { cache: { requestsPerSecond: 200 } } }
+     */
+    rateLimit?: RateLimitOptions;
+    /**
+     * Per-service circuit breakers for the generated APIs, `streamGateway`
+     * and `sdk.rpc`. A service whose failure rate crosses the threshold fails
+     * fast with `CircuitOpenError` until a trial call succeeds after the
+     * cooldown. `true` uses the defaults.
+     *
+     * @example
+     * circuitBreaker: { failureRateThreshold: 0.5, cooldownMs: 10_000, onStateChange: e => alert(e) }
+     */
+    circuitBreaker?: boolean | CircuitBreakerOptions;
+    /**
+     * Store `queue.enqueue`, `cache.set` and `gateway.billingLog` calls that
+     * cannot reach the API and replay them in order later; the call rejects
+     * with `OutboxQueuedError`. `true` keeps entries in memory; pass a
+     * `FileOutboxStore` or `SqliteOutboxStore` to survive restarts. Applies
+     * to this client, not to `forProject` clients.
+     *
+     * @example
+     * outbox: { store: new FileOutboxStore('/var/lib/app/outbox.json'), onPermanentFailure: (entry, err) => log(entry, err) }
+     */
+    outbox?: boolean | OutboxOptions;
+    /**
+     * Keep recently used cache values in process, an LRU in front of
+     * `sdk.cache`, so hot keys skip the network. Writes through `sdk.cache`
+     * are announced on a realtime channel so other instances evict the key.
+     * Applies to this client, not to `forProject` clients.
+     *
+     * @example
+     * localCache: { maxEntries: 5000, maxBytes: 50 * 1024 * 1024, ttl: 30 }
+     */
+    localCache?: boolean | LocalCacheOptions;
+    /**
+     * `'memory'` (or a `MemoryBackend` instance) serves cache, queue, storage,
+     * search, gateway and realtime from an in-process fake instead of the
+     * network, for tests. `sdk.rpc` is not covered. Defaults to `'http'`.
+     */
+    backend?: 'http' | 'memory' | MemoryBackend;
+    /**
+     * Transport for every HTTP request (generated APIs, `streamGateway`,
+     * realtime history), e.g. a `Cassette`'s `fetch`. Defaults to the global `fetch`.
+     */
+    fetchApi?: gen.FetchAPI;
+    /**
+     * Connection settings for the generated APIs, `streamGateway`, realtime
+     * history and the realtime WebSocket: keep-alive, pipelining, max sockets,
+     * connect timeout, custom CA and proxy. `HTTPS_PROXY` / `NO_PROXY` are
+     * honoured without this. Requires the `undici` package.
+     *
+     * @example
+     * agent: { keepAliveTimeoutMs: 30_000, maxSockets: 64, connectTimeoutMs: 5_000 }
+     */
+    agent?: AgentOptions;
+    /** A ready-made undici dispatcher; takes precedence over `agent`. Not closed by `close()`. */
+    dispatcher?: Dispatcher;
+}
+
+export interface CloseOptions {
+    /**
+     * How long to wait for in-flight requests and queued realtime messages.
+     * Requests still running afterwards are aborted with `ClientClosedError`.
+     * Defaults to 10s.
+     */
+    timeoutMs?: number;
+}
+
+const DEFAULT_CLOSE_TIMEOUT_MS = 10_000;
+
+/** Options for `SDK.fromEnv`: where to read settings, plus any `SDKOptions` to apply on top. */
+export interface FromEnvOptions extends SDKOptions, LoadConfigOptions { }
+
+/** Options for `SDK.forProject`. Without either, the parent's credentials are used. */
+export interface ProjectClientOptions {
+    apiKey?: string;
+    credentials?: CredentialsOption;
+}
+
+/** Options for `cache.getOrSet`. */
+export interface GetOrSetOptions extends RequestOptions {
+    /** Seconds a loaded value stays fresh. Unset stores it without expiry. */
+    ttl?: number;
+    /**
+     * Seconds after `ttl` during which the stale value is still returned
+     * while one caller reloads it in the background. Needs `ttl`.
+     */
+    staleWhileRevalidate?: number;
+    /**
+     * Take a short remote lock so only one instance runs the loader on a
+     * miss; the others wait for its value. `true` uses the defaults.
+     */
+    lock?: boolean | CacheLockOptions;
+    /** Called when a background refresh fails. Defaults to a warning through the client logger. */
+    onError?: (error: unknown) => void;
+}
+
+export interface CacheLockOptions {
+    /** Lock lifetime in seconds, in case its holder dies. Defaults to 10. */
+    ttl?: number;
+    /** How long callers without the lock wait for the value before loading it themselves, in ms. Defaults to 5s. */
+    waitMs?: number;
+    /** Poll interval while waiting, in ms. Defaults to 100. */
+    pollMs?: number;
+}
+
+const LOCK_DEFAULTS: Required<CacheLockOptions> = { ttl: 10, waitMs: 5_000, pollMs: 100 };
+
+// Sidecar keys used by getOrSet: `fresh` expires at `ttl` while the value
+// lives for `ttl + staleWhileRevalidate`; `lock` guards the loader. They sit
+// under a reserved prefix that `keys`, `list` and `scan` leave out.
+const RESERVED_PREFIX = '__aerostack:';
+const freshKey = (key: string) => `${RESERVED_PREFIX}fresh:${key}`;
+const lockKey = (key: string) => `${RESERVED_PREFIX}lock:${key}`;
+const isReserved = (key: string | undefined) => key?.startsWith(RESERVED_PREFIX) ?? false;
+
+function isHit(entry?: gen.CacheGetManyEntry): boolean {
+    return entry?._exists ?? (entry?.value !== null && entry?.value !== undefined);
 }
 
 /**
  * Ergonomic wrapper for Cache API — exposes clean method names
  * (get/set/delete) instead of the verbose OpenAPI names (cacheGet/cacheSet).
  * Covers all 11 cache operations supported by the Aerostack RPC API.
+ * Every method takes optional `RequestOptions` (signal, timeoutMs, retry) last.
  */
 class CacheFacade {
-    constructor(private api: gen.CacheApi) { }
+    // In-flight getOrSet loads by key, so concurrent misses share one loader call.
+    private loads = new Map<string, Promise<any>>();
+
+    /** @param local The in-process tier, with `SDKOptions.localCache`. */
+    constructor(private api: gen.CacheApi, private logger: Logger, private local?: LocalCache) { }
+
+    /** A local-tier hit, unless `withResponse()` needs the call to reach the server. */
+    private cached(key: string): unknown {
+        return isCapturingResponse() || isReserved(key) ? undefined : this.local?.get(key);
+    }
+
+    // getOrSet's sidecar keys stay out of the local tier: their remote TTLs
+    // decide when a value goes stale, and a local copy would outlive them.
+    private remember(key: string, value: unknown, ttl?: number): void {
+        if (!isReserved(key)) this.local?.set(key, value, ttl);
+    }
+
+    private forget(keys: string[]): void {
+        const held = keys.filter(key => !isReserved(key));
+        if (held.length) this.local?.invalidate(held);
+    }
 
     /** Get a cached value by key. Returns null if not found. */
-    async get<T = any>(key: string): Promise<T | null> {
-        const res = await this.api.cacheGet({ cacheGetRequest: { key } });
+    async get<T = any>(key: string, options?: RequestOptions): Promise<T | null> {
+        const local = this.cached(key);
+        if (local !== undefined) return local as T;
+        const res = await this.api.cacheGet({ cacheGetRequest: { key } }, requestInit(options));
         // _exists is the TS property name for the JSON `exists` field (codegen convention).
         // Fall back to value presence in case the API omits the exists field on a hit.
         const hit = res._exists ?? (res.value !== null && res.value !== undefined);
+        if (hit) this.remember(key, res.value);
         return hit ? (res.value as T) : null;
     }
 
     /** Set a cached value. Optional ttl in seconds. */
-    async set(key: string, value: any, ttl?: number): Promise<void> {
-        await this.api.cacheSet({ cacheSetRequest: { key, value, ...(ttl !== undefined && { ttl }) } });
+    async set(key: string, value: any, ttl?: number, options?: RequestOptions): Promise<void> {
+        try {
+            await this.api.cacheSet({ cacheSetRequest: { key, value, ...(ttl !== undefined && { ttl }) } }, requestInit(options));
+        } finally {
+            this.forget([key]);
+        }
+        this.remember(key, value, ttl);
     }
 
     /** Delete a cached key. */
-    async delete(key: string): Promise<void> {
-        await this.api.cacheDelete({ cacheGetRequest: { key } });
+    async delete(key: string, options?: RequestOptions): Promise<void> {
+        try {
+            await this.api.cacheDelete({ cacheGetRequest: { key } }, requestInit(options));
+        } finally {
+            this.forget([key]);
+        }
     }
 
     /** Check if a key exists without fetching its value. */
-    async exists(key: string): Promise<boolean> {
-        const res = await this.api.cacheGet({ cacheGetRequest: { key } });
+    async exists(key: string, options?: RequestOptions): Promise<boolean> {
+        if (this.cached(key) !== undefined) return true;
+        const res = await this.api.cacheGet({ cacheGetRequest: { key } }, requestInit(options));
         // Explicit false wins. If _exists is undefined, fall back to value presence.
         if (res._exists === false) return false;
         if (res._exists === true) return true;
@@ -54,46 +282,274 @@ class CacheFacade {
     }
 
     /** List cache keys with optional prefix (paginated). */
-    async list(prefix?: string, limit?: number, cursor?: string) {
-        return this.api.cacheList({ cacheListRequest: { prefix, limit, cursor } });
+    async list(prefix?: string, limit?: number, cursor?: string, options?: RequestOptions): Promise<gen.CacheListResult> {
+        const res = await this.api.cacheList({ cacheListRequest: { prefix, limit, cursor } }, requestInit(options));
+        return { ...res, keys: res.keys?.filter(entry => !isReserved(entry.key)) };
     }
 
     /** Get all keys matching prefix (auto-paginates, hard cap 10k). */
-    async keys(prefix?: string): Promise<string[]> {
-        const res = await this.api.cacheKeys({ cacheKeysRequest: { prefix } });
-        return res.keys ?? [];
+    async keys(prefix?: string, options?: RequestOptions): Promise<string[]> {
+        const res = await this.api.cacheKeys({ cacheKeysRequest: { prefix } }, requestInit(options));
+        return (res.keys ?? []).filter(key => !isReserved(key));
     }
 
-    /** Fetch up to 100 keys in a single call. */
-    async getMany(keys: string[]) {
-        const res = await this.api.cacheGetMany({ cacheGetManyRequest: { keys } });
-        return res.results ?? [];
+    /**
+     * Fetch many keys. Results come back in the order of `keys`; inputs over
+     * 100 keys are split into concurrent calls (see `BulkOptions`).
+     */
+    async getMany(keys: string[], options?: BulkOptions): Promise<gen.CacheGetManyEntry[]> {
+        const found = new Map<string, gen.CacheGetManyEntry>();
+        for (const key of keys) {
+            const value = this.cached(key);
+            if (value !== undefined) found.set(key, { key, value: value as any, _exists: true });
+        }
+        const merge = (chunks: gen.CacheGetManyEntry[][]) => {
+            const remote = new Map(chunks.flat().map(entry => [entry.key, entry]));
+            return keys.map(key => found.get(key) ?? remote.get(key) ?? { key, value: null, _exists: false });
+        };
+        const missing = [...new Set(keys.filter(key => !found.has(key)))];
+        if (keys.length && !missing.length) return merge([]);
+        const chunks = await runChunked('cache.getMany', missing, CACHE_BULK_LIMITS.getMany, options, key => key, async (chunk) => {
+            const res = await this.api.cacheGetMany({ cacheGetManyRequest: { keys: chunk } }, requestInit(options));
+            return res.results ?? [];
+        }, merge);
+        for (const entry of chunks.flat()) {
+            if (entry.key !== undefined && isHit(entry)) this.remember(entry.key, entry.value);
+        }
+        return merge(chunks);
     }
 
-    /** Store up to 100 key-value pairs in a single call. */
-    async setMany(entries: Array<{ key: string; value: any; ttl?: number }>) {
-        return this.api.cacheSetMany({ cacheSetManyRequest: { entries } });
+    /** Store many key-value pairs, split into concurrent calls of up to 100 (see `BulkOptions`). */
+    async setMany(entries: Array<{ key: string; value: any; ttl?: number }>, options?: BulkOptions): Promise<gen.CacheSetMany200Response> {
+        const merge = (chunks: gen.CacheSetMany200Response[]) => chunks.length === 1 ? chunks[0]! : ({
+            success: chunks.every(res => res.success !== false),
+            count: chunks.reduce((sum, res) => sum + (res.count ?? 0), 0),
+        });
+        let chunks: gen.CacheSetMany200Response[];
+        try {
+            chunks = await runChunked('cache.setMany', entries, CACHE_BULK_LIMITS.setMany, options, entry => entry.key, (chunk) => {
+                return this.api.cacheSetMany({ cacheSetManyRequest: { entries: chunk } }, requestInit(options));
+            }, merge);
+        } finally {
+            this.forget(entries.map(entry => entry.key));
+        }
+        for (const entry of entries) this.remember(entry.key, entry.value, entry.ttl);
+        return merge(chunks);
     }
 
-    /** Delete up to 500 keys in a single call. */
-    async deleteMany(keys: string[]) {
-        return this.api.cacheDeleteMany({ cacheDeleteManyRequest: { keys } });
+    /** Delete many keys, split into concurrent calls of up to 500 (see `BulkOptions`). */
+    async deleteMany(keys: string[], options?: BulkOptions): Promise<gen.CacheDeleteMany200Response> {
+        const merge = (chunks: gen.CacheDeleteMany200Response[]) => chunks.length === 1 ? chunks[0]! : ({
+            success: chunks.every(res => res.success !== false),
+            count: chunks.reduce((sum, res) => sum + (res.count ?? 0), 0),
+            deleted: chunks.reduce((sum, res) => sum + (res.deleted ?? 0), 0),
+        });
+        try {
+            return merge(await runChunked('cache.deleteMany', keys, CACHE_BULK_LIMITS.deleteMany, options, key => key, (chunk) => {
+                return this.api.cacheDeleteMany({ cacheDeleteManyRequest: { keys: chunk } }, requestInit(options));
+            }, merge));
+        } finally {
+            this.forget(keys);
+        }
     }
 
     /** Delete all keys matching prefix (or all project keys). Hard cap 10k. */
-    async flush(prefix?: string) {
-        return this.api.cacheFlush({ cacheFlushRequest: { prefix } });
+    async flush(prefix?: string, options?: RequestOptions) {
+        try {
+            return await this.api.cacheFlush({ cacheFlushRequest: { prefix } }, requestInit(options));
+        } finally {
+            this.local?.invalidatePrefix(prefix ?? '');
+        }
     }
 
     /** Update TTL of an existing key (get-then-put, not atomic). */
-    async expire(key: string, ttl: number) {
-        return this.api.cacheExpire({ cacheExpireRequest: { key, ttl } });
+    async expire(key: string, ttl: number, options?: RequestOptions) {
+        try {
+            return await this.api.cacheExpire({ cacheExpireRequest: { key, ttl } }, requestInit(options));
+        } finally {
+            this.forget([key]);
+        }
     }
 
     /** Increment a numeric counter. Initializes to initialValue (default 0) if key doesn't exist. */
-    async increment(key: string, amount?: number, initialValue?: number, ttl?: number): Promise<number | undefined> {
-        const res = await this.api.cacheIncrement({ cacheIncrementRequest: { key, amount, initialValue, ttl } });
-        return res.value;
+    async increment(key: string, amount?: number, initialValue?: number, ttl?: number, options?: RequestOptions): Promise<number | undefined> {
+        try {
+            const res = await this.api.cacheIncrement({ cacheIncrementRequest: { key, amount, initialValue, ttl } }, requestInit(options));
+            return res.value;
+        } finally {
+            this.forget([key]);
+        }
+    }
+
+    /**
+     * Iterate over every key matching `prefix`, one `cacheList` page at a
+     * time, following cursors until the listing is complete. Pages are only
+     * fetched as the loop asks for them, and there is no cap.
+     *
+     * @example
+     * for await (const { key, value } of sdk.cache.scan({ prefix: 'user:', withValues: true })) {
+     *     console.log(key, value);
+     * }
+     */
+    async *scan<T = any>(options: CacheScanOptions = {}): AsyncGenerator<CacheScanEntry<T>, void, undefined> {
+        const { prefix, pageSize = 100, withValues, ...request } = options;
+        let cursor: string | undefined;
+        do {
+            const page = await this.list(prefix, pageSize, cursor, request);
+            const entries = (page.keys ?? []).filter(entry => entry.key !== undefined);
+            if (withValues && entries.length) {
+                const values = await this.getMany(entries.map(entry => entry.key!), request);
+                for (const [i, entry] of entries.entries()) {
+                    if (!isHit(values[i])) continue;
+                    yield { ...this.scanEntry(entry), value: values[i]!.value as T };
+                }
+            } else {
+                for (const entry of entries) yield this.scanEntry(entry);
+            }
+            cursor = page.listComplete ? undefined : page.cursor;
+        } while (cursor);
+    }
+
+    /** Like `scan`, yielding only the keys. */
+    async *scanKeys(options: Omit<CacheScanOptions, 'withValues'> = {}): AsyncGenerator<string, void, undefined> {
+        for await (const entry of this.scan({ ...options, withValues: false })) yield entry.key;
+    }
+
+    /**
+     * Delete every key matching `prefix` (or every project key), with no
+     * 10k cap: keys are listed page by page and deleted in `deleteMany`
+     * batches as the scan goes. Like `flush`, this includes `getOrSet`'s
+     * bookkeeping keys for the matching keys.
+     */
+    async flushAll(prefix?: string, options?: RequestOptions): Promise<gen.CacheFlush200Response> {
+        let deleted = 0;
+        let batch: string[] = [];
+        const drain = async () => {
+            const res = await this.deleteMany(batch, options);
+            deleted += res.deleted ?? res.count ?? batch.length;
+            batch = [];
+        };
+        // An unprefixed listing already includes the reserved keys.
+        const prefixes = prefix ? [prefix, freshKey(prefix), lockKey(prefix)] : [''];
+        for (const listed of prefixes) {
+            for await (const key of this.rawKeys(listed, options)) {
+                batch.push(key);
+                if (batch.length >= CACHE_BULK_LIMITS.deleteMany) await drain();
+            }
+        }
+        if (batch.length) await drain();
+        return { success: true, deleted };
+    }
+
+    /** Every key under `prefix`, reserved ones included. */
+    private async *rawKeys(prefix: string, options?: RequestOptions): AsyncGenerator<string, void, undefined> {
+        let cursor: string | undefined;
+        do {
+            const page = await this.api.cacheList({ cacheListRequest: { prefix, limit: CACHE_BULK_LIMITS.deleteMany, cursor } }, requestInit(options));
+            for (const entry of page.keys ?? []) {
+                if (entry.key !== undefined) yield entry.key;
+            }
+            cursor = page.listComplete ? undefined : page.cursor;
+        } while (cursor);
+    }
+
+    private scanEntry(entry: gen.CacheKeyEntry): CacheScanEntry {
+        return { key: entry.key!, ...(entry.expiration !== undefined && { expiration: entry.expiration }) };
+    }
+
+    /**
+     * A view of the keys starting with `prefix`, with values checked against
+     * `schema` on every read and write.
+     *
+     * @example
+     * const sessions = sdk.cache.namespace('sessions:', { schema: SessionSchema, defaultTtl: 3600 });
+     * await sessions.set(id, session);
+     * const ids = await sessions.keys();
+     */
+    namespace<T = any>(prefix: string, options?: CacheNamespaceOptions<T>): CacheNamespace<T> {
+        return new CacheNamespace<T>(this, prefix, options);
+    }
+
+    /**
+     * Read-through get: return the cached value, or call `loader`, cache its
+     * result and return it. Concurrent misses in this process share one
+     * `loader` call; with `lock`, so do misses across instances. Within
+     * `staleWhileRevalidate` the stale value is returned at once while one
+     * caller refreshes it. `null`/`undefined` results are not cached.
+     *
+     * @example
+     * const user = await sdk.cache.getOrSet(`user:${id}`, () => loadUser(id), { ttl: 60, staleWhileRevalidate: 300 });
+     */
+    async getOrSet<T>(key: string, loader: () => Promise<T>, options: GetOrSetOptions = {}): Promise<T> {
+        const { ttl, staleWhileRevalidate, lock, onError, ...request } = options;
+        const swr = ttl !== undefined && staleWhileRevalidate ? staleWhileRevalidate : 0;
+        if (swr) {
+            const results = await this.getMany([key, freshKey(key)], request);
+            const entry = results.find(r => r.key === key);
+            if (isHit(entry)) {
+                if (!isHit(results.find(r => r.key === freshKey(key)))) {
+                    this.load(key, loader, options, entry!.value as T).catch((e) => {
+                        if (options.onError) options.onError(e);
+                        else this.logger.warn({ key, error: (e as Error)?.message ?? e }, 'Cache background refresh failed');
+                    });
+                }
+                return entry!.value as T;
+            }
+        } else {
+            const cached = await this.get<T>(key, request);
+            if (cached !== null) return cached;
+        }
+        return this.load(key, loader, options);
+    }
+
+    private load<T>(key: string, loader: () => Promise<T>, options: GetOrSetOptions, stale?: T): Promise<T> {
+        let pending = this.loads.get(key) as Promise<T> | undefined;
+        if (!pending) {
+            pending = this.loadOnce(key, loader, options, stale).finally(() => this.loads.delete(key));
+            this.loads.set(key, pending);
+        }
+        return pending;
+    }
+
+    private async loadOnce<T>(key: string, loader: () => Promise<T>, options: GetOrSetOptions, stale?: T): Promise<T> {
+        const { ttl, staleWhileRevalidate, lock, onError, ...request } = options;
+        const swr = ttl !== undefined && staleWhileRevalidate ? staleWhileRevalidate : 0;
+        const lockOptions = lock ? { ...LOCK_DEFAULTS, ...(lock === true ? {} : lock) } : undefined;
+        let locked = false;
+        if (lockOptions) {
+            // The first increment creates the key (with its TTL) and sees 1.
+            locked = await this.increment(lockKey(key), 1, 0, lockOptions.ttl, request) === 1;
+            if (!locked) {
+                // Another instance is refreshing; keep serving the stale value.
+                if (stale !== undefined) return stale;
+                const value = await this.waitFor<T>(key, lockOptions, request);
+                if (value !== null) return value;
+            }
+        }
+        try {
+            const value = await loader();
+            if (value !== null && value !== undefined) {
+                const entries: Array<{ key: string; value: any; ttl?: number }> = [
+                    { key, value, ...(ttl !== undefined && { ttl: ttl + swr }) },
+                ];
+                if (swr) entries.push({ key: freshKey(key), value: 1, ttl });
+                await this.setMany(entries, request);
+            }
+            return value;
+        } finally {
+            if (locked) await this.delete(lockKey(key), request).catch(() => { });
+        }
+    }
+
+    /** Poll for a value another instance is loading, up to `waitMs`. */
+    private async waitFor<T>(key: string, lock: Required<CacheLockOptions>, request: RequestOptions): Promise<T | null> {
+        const deadline = Date.now() + lock.waitMs;
+        while (Date.now() < deadline) {
+            await sleep(Math.min(lock.pollMs, deadline - Date.now()), request.signal);
+            const value = await this.get<T>(key, request);
+            if (value !== null) return value;
+        }
+        return null;
     }
 }
 
@@ -116,12 +572,12 @@ class DatabaseFacade {
         requestBody?: gen.DbQueryRequest,
         xSDKVersion?: string,
         xRequestID?: string
-    }) {
+    }, options?: RequestOptions) {
         return this.api.dbQuery({
             dbQueryRequest: params.dbQueryRequest || params.requestBody!,
             xSDKVersion: params.xSDKVersion,
             xRequestID: params.xRequestID
-        });
+        }, requestInit(options));
     }
 }
 
@@ -141,7 +597,6 @@ export class SDK {
     public readonly ai: gen.AIApi;
     public readonly services: gen.ServicesApi;
     public readonly gateway: gen.GatewayApi;
-    public readonly realtime: NodeRealtimeClient;
     /**
      * Full enterprise RPC client — exposes all new methods:
      * cache.list/keys/getMany/setMany/deleteMany/flush/expire/increment
@@ -150,22 +605,112 @@ export class SDK {
      * ai.search.update/get/count
      */
     public readonly rpc: AerostackClient;
+    /** The in-process backend, with `backend: 'memory'`. Shared with `forProject` clients. */
+    public readonly memory?: MemoryBackend;
+    /** Stored writes waiting for replay, with `outbox` set. Root client only. */
+    public readonly outbox?: Outbox;
+    /** The in-process cache tier, with `localCache` set. Root client only. */
+    public readonly localCache?: LocalCache;
 
     private config: gen.Configuration;
+    private _safe?: SafeClient<SDK>;
+    private _withResponse?: ResponseClient<SDK>;
+    private _realtime?: NodeRealtimeClient;
+    private retryPolicy: RetryPolicy | null;
+    private rateLimiter?: RateLimiter;
+    private breaker?: CircuitBreaker;
+    private baseFetch: gen.FetchAPI;
+    private connections: ConnectionPool;
+    private endpoints?: Endpoints;
+    private fetchApi: gen.FetchAPI;
+    private middleware: gen.Middleware[];
+    private logger: Logger;
+    private telemetry?: Telemetry;
+    private credentials: Credentials;
+    private rpcClient: AerostackClient;
+    private projectId?: string;
+    private timeoutMs?: number;
+    private maxReconnectAttempts?: number;
+    private parent?: SDK;
+    private projects: Map<string, SDK> = new Map();
+    private unsubscribeRotate: () => void;
+    private unsubscribeEndpoints?: () => void;
+    /** In-flight calls, each with a controller that cuts it off when `close()` times out. */
+    private active: Map<Promise<unknown>, AbortController> = new Map();
+    private closing?: Promise<void>;
 
-    constructor(options: SDKOptions = {}) {
-        const serverUrl = options.serverUrl || options.serverURL || 'https://api.aerostack.dev/v1';
+    /**
+     * @param parent @internal — Set by `forProject`; the new client reuses the
+     * parent's fetch, middleware, retry policy, logger and telemetry.
+     */
+    constructor(options: SDKOptions = {}, parent?: SDK) {
+        const serverUrl = options.serverUrls?.[0] || options.serverUrl || options.serverURL || 'https://api.aerostack.dev/v1';
         const apiKey = options.apiKey || options.apiKeyAuth;
 
+        this.parent = parent;
+        // A project client without its own key keeps using (and rotating with) the parent's.
+        this.credentials = parent && options.credentials === undefined && apiKey === undefined
+            ? parent.credentials
+            : new Credentials(options.credentials ?? apiKey);
+        this.projectId = options.projectId;
+        this.timeoutMs = options.timeoutMs;
+        this.maxReconnectAttempts = options.maxReconnectAttempts;
+        this.logger = parent?.logger ?? createLogger(options.logger, options.logLevel);
+        if (parent) {
+            this.telemetry = parent.telemetry;
+        } else if (options.telemetry) {
+            this.telemetry = createTelemetry(options.telemetry === true ? {} : options.telemetry);
+        }
+        this.retryPolicy = parent ? parent.retryPolicy : resolveRetryPolicy(options.retry);
+        this.rateLimiter = parent ? parent.rateLimiter : options.rateLimit && new RateLimiter(options.rateLimit);
+        if (parent) {
+            this.breaker = parent.breaker;
+        } else if (options.circuitBreaker) {
+            this.breaker = new CircuitBreaker(options.circuitBreaker === true ? {} : options.circuitBreaker);
+        }
+        this.memory = parent ? parent.memory
+            : options.backend === 'memory' ? new MemoryBackend()
+            : options.backend instanceof MemoryBackend ? options.backend : undefined;
+        // Resolve the global fetch per call so it can be swapped after construction.
+        this.connections = parent?.connections ?? new ConnectionPool({ agent: options.agent, dispatcher: options.dispatcher }, this.logger);
+        const globalFetch: gen.FetchAPI = (input, init) => fetch(input, init);
+        const transport = options.fetchApi ?? this.memory?.fetch
+            ?? (this.connections.enabled ? this.connections.wrap(globalFetch) : globalFetch);
+        if (parent) {
+            this.endpoints = parent.endpoints;
+        } else if (options.serverUrls && options.serverUrls.length > 1) {
+            this.endpoints = new Endpoints(options.serverUrls, options.failover ?? {}, transport, this.logger);
+        }
+        this.baseFetch = parent?.baseFetch ?? (this.endpoints ? withFailover(transport, this.endpoints) : transport);
+        const pipeline = withTimeout(
+            withIdempotencyKey(withRetry(this.guarded(this.limited(withCredentials(this.baseFetch, this.credentials))), this.retryPolicy)),
+            options.timeoutMs,
+        );
+        if (!parent && options.outbox) {
+            this.outbox = new Outbox(options.outbox === true ? {} : options.outbox, this.tracked(pipeline), this.logger);
+        }
+        this.fetchApi = this.tracked(this.outbox ? this.outbox.wrap(pipeline) : pipeline);
+        this.middleware = parent?.middleware ?? [
+            loggingMiddleware(this.logger),
+            ...(this.telemetry ? [telemetryMiddleware(this.telemetry)] : []),
+            metadataMiddleware(),
+            errorMiddleware,
+            validationMiddleware(options.validateResponses ?? 'off', (message, issues) => this.logger.warn({ issues }, message)),
+        ];
+
+        // The API key header is added per request by `withCredentials`.
         this.config = new gen.Configuration({
             basePath: serverUrl,
-            headers: apiKey ? { 'X-Aerostack-Key': apiKey } : {},
-            apiKey: apiKey,
+            fetchApi: this.fetchApi,
+            middleware: this.middleware,
         });
 
         this.database = new DatabaseFacade(new gen.DatabaseApi(this.config));
         this.auth = new gen.AuthenticationApi(this.config);
-        this.cache = new CacheFacade(new gen.CacheApi(this.config));
+        if (!parent && options.localCache) {
+            this.localCache = new LocalCache(options.localCache === true ? {} : options.localCache, () => this.realtime, this.logger);
+        }
+        this.cache = new CacheFacade(new gen.CacheApi(this.config), this.logger, this.localCache);
         this.queue = new gen.QueueApi(this.config);
         this.storage = new gen.StorageApi(this.config);
         this.ai = new gen.AIApi(this.config);
@@ -173,18 +718,182 @@ export class SDK {
         this.gateway = new gen.GatewayApi(this.config);
 
         // Enterprise client — full API surface
-        this.rpc = new AerostackClient({
-            baseUrl: serverUrl,
-            apiKey,
-            projectId: options.projectId,
+        this.rpcClient = this.createRpcClient(this.credentials.current);
+        this.rpc = this.createRpc();
+
+        // Swap every key holder in one synchronous step.
+        this.unsubscribeRotate = this.credentials.onRotate((key) => {
+            this.rpcClient = this.createRpcClient(key);
+            this._realtime?.setApiKey(key);
         });
+        this.unsubscribeEndpoints = this.endpoints?.onChange(() => {
+            this.rpcClient = this.createRpcClient(this.credentials.current);
+        });
+    }
 
-        this.realtime = new NodeRealtimeClient({
-            serverUrl,
-            apiKey: apiKey,
-            projectId: options.projectId,
-            maxReconnectAttempts: options.maxReconnectAttempts
+    /**
+     * Build a client from `AEROSTACK_API_KEY`, `AEROSTACK_SERVER_URL` and
+     * `AEROSTACK_PROJECT_ID`, falling back to a profile in `~/.aerostack/config`
+     * (`AEROSTACK_PROFILE` or `options.profile`; `default` otherwise).
+     * Explicit options win. Throws `ConfigurationError` right away when the
+     * API key or project id is missing.
+     *
+     * @example
+     * const sdk = SDK.fromEnv({ profile: 'staging', timeoutMs: 5000 });
+     */
+    static fromEnv(options: FromEnvOptions = {}): SDK {
+        const { profile, configFile, env, ...sdkOptions } = options;
+        const config = loadConfig({ profile, configFile, env }, {
+            apiKey: sdkOptions.apiKey ?? sdkOptions.apiKeyAuth,
+            serverUrl: sdkOptions.serverUrl ?? sdkOptions.serverURL,
+            projectId: sdkOptions.projectId,
+            credentials: sdkOptions.credentials,
         });
+        return new SDK({ ...sdkOptions, ...config });
+    }
+
+    /** Realtime client for this project, created on first use. */
+    get realtime(): NodeRealtimeClient {
+        if (this.closing) throw this.closedError();
+        if (!this._realtime) {
+            this._realtime = new NodeRealtimeClient({
+                serverUrl: this.config.basePath,
+                apiKey: this.credentials.current,
+                apiKeyProvider: () => this.credentials.get(),
+                projectId: this.projectId,
+                maxReconnectAttempts: this.maxReconnectAttempts,
+                logger: this.logger,
+                telemetry: this.telemetry,
+                webSocket: this.memory?.WebSocket,
+                loadWebSocket: this.connections.enabled ? () => this.connections.webSocket() : undefined,
+                fetchApi: this.baseFetch,
+                endpoints: this.endpoints,
+            });
+        }
+        return this._realtime;
+    }
+
+    /**
+     * A client for another project that shares this client's fetch,
+     * middleware, retry policy and logger. Clients are cached per project id;
+     * the realtime connection is only created when `realtime` is first used.
+     * Call `dispose()` on the returned client when the tenant goes away.
+     *
+     * @example
+     * const tenant = sdk.forProject('proj_123', { apiKey: tenantKey });
+     * await tenant.cache.get('settings');
+     */
+    forProject(projectId: string, options: ProjectClientOptions = {}): SDK {
+        const root = this.parent ?? this;
+        if (root.closing) throw this.closedError();
+        const existing = root.projects.get(projectId);
+        if (existing) {
+            if (options.apiKey === undefined || options.apiKey === existing.credentials.current) return existing;
+            // Rotate in place unless the key is the one shared with the parent.
+            if (existing.credentials !== root.credentials) {
+                existing.setApiKey(options.apiKey);
+                return existing;
+            }
+            existing.dispose();
+        }
+        const client = new SDK({
+            serverUrl: root.config.basePath,
+            projectId,
+            apiKey: options.apiKey,
+            credentials: options.credentials,
+            timeoutMs: root.timeoutMs,
+            maxReconnectAttempts: root.maxReconnectAttempts,
+        }, root);
+        root.projects.set(projectId, client);
+        return client;
+    }
+
+    /**
+     * Disconnect realtime, stop credential refresh timers and dispose every
+     * client created with `forProject`. A project client also removes itself
+     * from its parent's cache.
+     */
+    dispose(): void {
+        for (const client of this.projects.values()) client.dispose();
+        this.projects.clear();
+        this._realtime?.disconnect();
+        this._realtime = undefined;
+        this.unsubscribeRotate();
+        this.unsubscribeEndpoints?.();
+        if (!this.parent) this.endpoints?.close();
+        this.outbox?.close();
+        this.localCache?.close();
+        if (this.credentials !== this.parent?.credentials) this.credentials.dispose();
+        if (this.parent && this.projectId !== undefined && this.parent.projects.get(this.projectId) === this) {
+            this.parent.projects.delete(this.projectId);
+        }
+    }
+
+    /**
+     * Shut down gracefully: reject new calls with `ClientClosedError`, wait
+     * for in-flight requests (streams and `rpc` included) and queued realtime
+     * messages, unsubscribe channels, close the socket and clear timers.
+     * Project clients from `forProject` are closed too. Safe to call twice.
+     *
+     * @example
+     * process.on('SIGTERM', () => sdk.close({ timeoutMs: 5000 }).then(() => process.exit(0)));
+     */
+    close(options: CloseOptions = {}): Promise<void> {
+        this.closing ??= this.shutdown(options.timeoutMs ?? DEFAULT_CLOSE_TIMEOUT_MS);
+        return this.closing;
+    }
+
+    /** `await using sdk = new SDK(...)` closes the client at the end of the scope. */
+    async [Symbol.asyncDispose](): Promise<void> {
+        await this.close();
+    }
+
+    /**
+     * The same client in Result mode: every async operation (cache, database,
+     * queue, storage, ai, services, gateway, auth, rpc, streamGateway) resolves
+     * to `{ ok: true, value }` or `{ ok: false, error: AerostackError }`.
+     *
+     * @example
+     * const result = await sdk.safe.cache.get('user:1');
+     * if (!result.ok) console.error(result.error.code);
+     */
+    get safe(): SafeClient<SDK> {
+        if (!this._safe) this._safe = safeClient<SDK>(this);
+        return this._safe;
+    }
+
+    /**
+     * Response metadata next to the result: `{ data, requestId, status,
+     * headers, durationMs, rateLimit }`. Without arguments, returns the client
+     * with every HTTP facade call (cache, database, auth, queue, storage, ai,
+     * services, gateway, streamGateway) resolving to that shape; with a
+     * callback, captures the last response of the calls it makes. `sdk.rpc`
+     * does not go through this client's transport and is not covered.
+     *
+     * @example
+     * const { data, rateLimit } = await sdk.withResponse().cache.get('user:1');
+     * const { requestId } = await sdk.withResponse(() => sdk.database.dbQuery({ ... }));
+     */
+    withResponse(): ResponseClient<SDK>;
+    withResponse<T>(call: () => Promise<T>): Promise<WithResponse<T>>;
+    withResponse<T>(call?: () => Promise<T>): ResponseClient<SDK> | Promise<WithResponse<T>> {
+        if (call) return withResponseMetadata(call);
+        if (!this._withResponse) this._withResponse = responseClient<SDK>(this);
+        return this._withResponse;
+    }
+
+    /**
+     * Listen for circuit breaker state changes (`closed` → `open` →
+     * `half-open` → ...), per service. Shared with `forProject` clients.
+     * Returns an unsubscribe function; a no-op without `circuitBreaker`.
+     */
+    onCircuitStateChange(cb: (event: CircuitStateChange) => void): () => void {
+        return this.breaker?.onStateChange(cb) ?? (() => { });
+    }
+
+    /** State of a service's circuit (`'cache'`, `'ai'`, ...). Always `'closed'` without `circuitBreaker`. */
+    circuitState(service: string): CircuitState {
+        return this.breaker?.state(service) ?? 'closed';
     }
 
     /**
@@ -198,7 +907,7 @@ export class SDK {
      *   onToken: (delta) => process.stdout.write(delta),
      * });
      */
-    async streamGateway(opts: {
+    streamGateway(opts: {
         apiSlug: string;
         messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
         consumerKey?: string;
@@ -208,7 +917,16 @@ export class SDK {
         onDone?: (usage: { tokensUsed: number }) => void;
         onError?: (error: Error) => void;
         signal?: AbortSignal;
+        /** Fail with `TimeoutError` if the response headers take longer. Overrides `SDKOptions.timeoutMs`; `0` disables it. */
+        timeoutMs?: number;
     }): Promise<{ text: string; tokensUsed: number }> {
+        return this.track(signal => this.stream(opts, signal), opts.signal);
+    }
+
+    private async stream(
+        opts: Parameters<SDK['streamGateway']>[0],
+        signal: AbortSignal,
+    ): Promise<{ text: string; tokensUsed: number }> {
         const baseUrl = this.config.basePath.replace(/\/v1\/?$/, '');
         const endpoint = `${baseUrl}/api/gateway/${opts.apiSlug}/v1/chat/completions`;
 
@@ -226,22 +944,62 @@ export class SDK {
         let text = '';
         let totalTokens = 0;
         let estimatedTokens = 0;
+        const path = new URL(endpoint).pathname;
+        const telemetry = this.telemetry;
+        await telemetry?.ready;
+        const started = Date.now();
+        const span = telemetry?.startSpan('gateway.chat.completions', {
+            'aerostack.operation': 'gateway.chat.completions',
+            'http.request.method': 'POST',
+            'url.full': endpoint,
+        });
+        if (span) telemetry!.inject(span, headers);
+        let usage: any;
+        let finished = false;
+        const finish = (error?: unknown) => {
+            if (!span || finished) return;
+            finished = true;
+            span.setAttributes(tokenUsageAttributes(usage ?? { completion_tokens: totalTokens || estimatedTokens }));
+            telemetry!.end(span, 'gateway.chat.completions', started, error);
+        };
+
+        // The deadline covers connecting and the response headers, not the streamed body.
+        const timeoutMs = opts.timeoutMs ?? this.timeoutMs;
+        const deadline = new AbortController();
+        const timer = timeoutMs && timeoutMs > 0
+            ? setTimeout(() => deadline.abort(new TimeoutError(timeoutMs)), timeoutMs)
+            : undefined;
+        let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
 
         try {
-            const response = await fetch(endpoint, {
+            this.logger.debug({ method: 'POST', path, headers: redactHeaders(headers) }, 'HTTP request');
+            // Adds the current API key and refreshes it once on 401.
+            const response = await this.guarded(this.limited(withCredentials(this.baseFetch, this.credentials)))(endpoint, {
                 method: 'POST',
                 headers,
                 body: JSON.stringify({ messages, stream: true, stream_options: { include_usage: true } }),
-                signal: opts.signal,
+                signal: AbortSignal.any([signal, deadline.signal]),
             });
+            clearTimeout(timer);
+            const fields = {
+                method: 'POST',
+                path,
+                status: response.status,
+                durationMs: Date.now() - started,
+                requestId: response.headers?.get('X-Request-ID') ?? undefined,
+            };
+            recordResponse(response, started, headers);
+
+            span?.setAttribute('http.response.status_code', response.status);
 
             if (!response.ok) {
-                const err = await response.json().catch(() => ({ error: 'Request failed' }));
-                throw new Error((err as any).error || `HTTP ${response.status}`);
+                this.logger.info(fields, 'HTTP request failed');
+                throw await parseErrorResponse(response);
             }
+            this.logger.debug(fields, 'HTTP response');
             if (!response.body) throw new Error('No response body');
 
-            const reader = response.body.getReader();
+            reader = response.body.getReader();
             const decoder = new TextDecoder();
             let buffer = '';
 
@@ -258,6 +1016,7 @@ export class SDK {
                     if (payload === '[DONE]') {
                         reader.cancel();
                         const result = { text, tokensUsed: totalTokens || estimatedTokens };
+                        finish();
                         opts.onDone?.(result);
                         return result;
                     }
@@ -269,6 +1028,7 @@ export class SDK {
                             opts.onToken?.(delta);
                             estimatedTokens += Math.ceil(delta.length / 4);
                         }
+                        if (parsed.usage) usage = parsed.usage;
                         if (parsed.usage?.total_tokens) totalTokens = parsed.usage.total_tokens;
                         else if (parsed.usage?.completion_tokens) totalTokens = parsed.usage.completion_tokens;
                     } catch { /* skip malformed frames */ }
@@ -276,36 +1036,120 @@ export class SDK {
             }
 
             const result = { text, tokensUsed: totalTokens || estimatedTokens };
+            finish();
             opts.onDone?.(result);
             return result;
-        } catch (err: any) {
-            if (err.name === 'AbortError') return { text, tokensUsed: totalTokens || estimatedTokens };
+        } catch (caught: any) {
+            clearTimeout(timer);
+            const err = deadline.signal.aborted ? deadline.signal.reason : caught;
+            // Frees the connection and its rate-limit slot.
+            reader?.cancel().catch(() => { });
+            if (err.name === 'AbortError') {
+                finish(err);
+                return { text, tokensUsed: totalTokens || estimatedTokens };
+            }
             const error = err instanceof Error ? err : new Error(String(err));
+            finish(error);
+            if (!(error instanceof AerostackError)) {
+                this.logger.info({ method: 'POST', path, durationMs: Date.now() - started, error: error.message }, 'HTTP request error');
+            }
             opts.onError?.(error);
             throw error;
         }
     }
 
     /**
-     * Update the API key for subsequent requests.
+     * Update the API key for subsequent requests. Applies to the generated
+     * APIs, `rpc`, `streamGateway` and the realtime connection at once, and
+     * replaces any `credentials` provider.
      */
     setApiKey(apiKey: string): void {
-        this.config = new gen.Configuration({
-            ...this.config,
-            headers: { ...this.config.headers, 'X-Aerostack-Key': apiKey },
-            apiKey,
+        this.credentials.set(apiKey);
+    }
+
+    private async shutdown(timeoutMs: number): Promise<void> {
+        const children = [...this.projects.values()].map(client => client.close({ timeoutMs }));
+        const realtime = this._realtime?.close({ timeoutMs });
+        if (!await settleWithin(Promise.allSettled(this.active.keys()), timeoutMs)) {
+            this.logger.warn({ inFlight: this.active.size, timeoutMs }, 'Closing with requests still in flight');
+            const error = this.closedError();
+            for (const controller of this.active.values()) controller.abort(error);
+        }
+        // The limiter is shared with project clients, which are closing as well.
+        if (!this.parent) this.rateLimiter?.clear(this.closedError());
+        await Promise.all([realtime, ...children]);
+        this.dispose();
+        if (!this.parent) await this.connections.close();
+    }
+
+    private closedError(): ClientClosedError {
+        return new ClientClosedError('The Aerostack client has been closed', { code: 'CLIENT_CLOSED' });
+    }
+
+    /**
+     * Run `call` as an in-flight call for `close()`. It gets a signal that
+     * follows `signal` and aborts if `close()` times out. Rejects once closing.
+     */
+    private track<T>(call: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal | null): Promise<T> {
+        if (this.closing) return Promise.reject(this.closedError());
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(signal!.reason);
+        if (signal?.aborted) onAbort();
+        else signal?.addEventListener('abort', onAbort, { once: true });
+        const promise: Promise<T> = call(controller.signal).finally(() => {
+            signal?.removeEventListener('abort', onAbort);
+            this.active.delete(promise);
         });
-        (this as any).database = new DatabaseFacade(new gen.DatabaseApi(this.config));
-        (this as any).auth = new gen.AuthenticationApi(this.config);
-        (this as any).cache = new CacheFacade(new gen.CacheApi(this.config));
-        (this as any).queue = new gen.QueueApi(this.config);
-        (this as any).storage = new gen.StorageApi(this.config);
-        (this as any).ai = new gen.AIApi(this.config);
-        (this as any).services = new gen.ServicesApi(this.config);
-        (this as any).gateway = new gen.GatewayApi(this.config);
-        (this as any).rpc = new AerostackClient({
-            baseUrl: this.config.basePath,
+        this.active.set(promise, controller);
+        return promise;
+    }
+
+    private tracked(fetchApi: gen.FetchAPI): gen.FetchAPI {
+        return (input, init) => this.track(signal => fetchApi(input, { ...init, signal }), init?.signal);
+    }
+
+    /** Apply the client-side rate limits, if configured. */
+    private limited(fetchApi: gen.FetchAPI): gen.FetchAPI {
+        return this.rateLimiter ? withRateLimit(fetchApi, this.rateLimiter) : fetchApi;
+    }
+
+    /** Apply the per-service circuit breakers, if configured. */
+    private guarded(fetchApi: gen.FetchAPI): gen.FetchAPI {
+        return this.breaker ? withCircuitBreaker(fetchApi, this.breaker) : fetchApi;
+    }
+
+    private createRpcClient(apiKey: string | undefined): AerostackClient {
+        return new AerostackClient({
+            baseUrl: this.endpoints?.current ?? this.config.basePath,
             apiKey,
+            projectId: this.projectId,
+        });
+    }
+
+    /**
+     * `sdk.rpc` always calls the current client, through the retry policy (and
+     * a span, with telemetry on). A 401 refreshes provider credentials and
+     * replays the call once. With `serverUrls`, failures count against the
+     * current endpoint, and the client is rebuilt when the endpoint changes.
+     */
+    private createRpc(): AerostackClient {
+        const client = liveClient(() => this.rpcClient);
+        return interceptClient(client, async (operation, call) => {
+            const attempt = async () => {
+                const apiKey = await this.credentials.get();
+                const send = () => this.endpoints ? this.endpoints.use(() => call()) : call();
+                const limited = () => this.rateLimiter ? this.rateLimiter.run(operation.service, send) : send();
+                const guarded = () => this.breaker ? this.breaker.run(operation.service, limited) : limited();
+                try {
+                    return await retryCall(operation, guarded, this.retryPolicy);
+                } catch (e) {
+                    if ((e as any)?.status !== 401 || !this.credentials.refreshable) throw e;
+                    const refreshed = await this.credentials.refresh(apiKey);
+                    if (refreshed === undefined || refreshed === apiKey) throw e;
+                    return guarded();
+                }
+            };
+            return this.track(() => this.telemetry ? traceCall(this.telemetry, operation.name, attempt) : attempt());
         });
     }
 }
@@ -313,5 +1157,18 @@ export class SDK {
 /** @deprecated Use SDK instead */
 export const Aerostack = SDK;
 
+export interface CreateClientOptions extends SDKOptions {
+    /**
+     * Return the Result-returning client (`sdk.safe`), where operations
+     * resolve to `{ ok, value, error }` instead of throwing.
+     */
+    resultMode?: boolean;
+}
+
 // Export a default instance factory or just the class
-export const createClient = (options: SDKOptions) => new SDK(options);
+export function createClient(options: CreateClientOptions & { resultMode: true }): SafeClient<SDK>;
+export function createClient(options?: CreateClientOptions): SDK;
+export function createClient(options: CreateClientOptions = {}): SDK | SafeClient<SDK> {
+    const sdk = new SDK(options);
+    return options.resultMode ? sdk.safe : sdk;
+}
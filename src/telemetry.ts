@@ -0,0 +1,248 @@
+/**
+ * OpenTelemetry instrumentation: one client span per operation, W3C trace
+ * context propagation and latency / error metrics.
+ *
+ * Uses the global tracer and meter providers unless others are passed in, so
+ * nothing is recorded until the application registers an OpenTelemetry SDK.
+ * `@opentelemetry/api` is an optional peer dependency, loaded only when
+ * `SDKOptions.telemetry` is set.
+ */
+
+import type { Attributes, Counter, Histogram, Meter, Span, Tracer } from '@opentelemetry/api';
+import type { Middleware } from './_generated/runtime.js';
+import { AerostackError, ConfigurationError } from './errors.js';
+import { operationFromUrl } from './operations.js';
+
+const INSTRUMENTATION_NAME = '@aerostack/sdk-node';
+
+type OtelApi = typeof import('@opentelemetry/api');
+
+export type SpanKindName = 'client' | 'producer' | 'consumer';
+
+/** W3C trace context fields (`traceparent`, `tracestate`) carried in headers or messages. */
+export type TraceCarrier = Record<string, string>;
+
+export interface TelemetryOptions {
+    /** Defaults to the global tracer provider. */
+    tracer?: Tracer;
+    /** Defaults to the global meter provider. */
+    meter?: Meter;
+}
+
+/** Shared span and metric helpers used by the HTTP middleware, `streamGateway` and realtime. */
+export interface Telemetry {
+    /** Resolves once `@opentelemetry/api` is loaded; rejects with `ConfigurationError` if it is not installed. */
+    readonly ready: Promise<void>;
+    /** Whether `ready` has resolved. Synchronous callers skip their span until then. */
+    readonly loaded: boolean;
+    /**
+     * Start a span as a child of the active context, or of the trace context
+     * in `parent` (e.g. from a received message). Only after `ready`.
+     */
+    startSpan(name: string, attributes?: Attributes, kind?: SpanKindName, parent?: TraceCarrier): Span;
+    /** Write `traceparent` / `tracestate` for `span` into `carrier`. */
+    inject(span: Span, carrier: TraceCarrier): void;
+    /** Run `call` with `span` as the active span, so spans it starts become children. */
+    withSpan<T>(span: Span, call: () => T): T;
+    /** End `span`, recording `error` if given, and emit duration and error metrics. */
+    end(span: Span, operation: string, startedAt: number, error?: unknown, attributes?: Attributes): void;
+}
+
+let loading: Promise<OtelApi> | undefined;
+
+function loadOtel(): Promise<OtelApi> {
+    loading ??= import('@opentelemetry/api').catch((e) => {
+        loading = undefined;
+        throw new ConfigurationError('Telemetry needs the "@opentelemetry/api" package. Install it with `npm install @opentelemetry/api`.', {
+            code: 'MISSING_DEPENDENCY',
+            cause: e,
+        });
+    });
+    return loading;
+}
+
+interface Instruments {
+    otel: OtelApi;
+    tracer: Tracer;
+    duration: Histogram;
+    errors: Counter;
+}
+
+export function createTelemetry(options: TelemetryOptions = {}): Telemetry {
+    let instruments: Instruments | undefined;
+    const ready = loadOtel().then((otel) => {
+        const meter = options.meter ?? otel.metrics.getMeter(INSTRUMENTATION_NAME);
+        instruments = {
+            otel,
+            tracer: options.tracer ?? otel.trace.getTracer(INSTRUMENTATION_NAME),
+            duration: meter.createHistogram('aerostack.client.operation.duration', {
+                description: 'Duration of Aerostack SDK operations',
+                unit: 'ms',
+            }),
+            errors: meter.createCounter('aerostack.client.operation.errors', {
+                description: 'Number of failed Aerostack SDK operations',
+            }),
+        };
+    });
+    // Callers that need telemetry await `ready` and see the error there.
+    ready.catch(() => { });
+    const loaded = (): Instruments => {
+        if (!instruments) throw new Error('Telemetry used before @opentelemetry/api was loaded');
+        return instruments;
+    };
+
+    return {
+        ready,
+        get loaded() {
+            return instruments !== undefined;
+        },
+        startSpan(name, attributes, kind = 'client', parent) {
+            const { otel, tracer } = loaded();
+            const ctx = parent ? otel.propagation.extract(otel.context.active(), parent) : otel.context.active();
+            const spanKind = { client: otel.SpanKind.CLIENT, producer: otel.SpanKind.PRODUCER, consumer: otel.SpanKind.CONSUMER }[kind];
+            return tracer.startSpan(name, { kind: spanKind, attributes }, ctx);
+        },
+        inject(span, carrier) {
+            const { otel } = loaded();
+            otel.propagation.inject(otel.trace.setSpan(otel.context.active(), span), carrier);
+        },
+        withSpan(span, call) {
+            const { otel } = loaded();
+            return otel.context.with(otel.trace.setSpan(otel.context.active(), span), call);
+        },
+        end(span, operation, startedAt, error, attributes = {}) {
+            const { otel, duration, errors } = loaded();
+            const metricAttributes: Attributes = { 'aerostack.operation': operation, ...attributes };
+            if (error !== undefined) {
+                const errorType = errorTypeOf(error);
+                metricAttributes['error.type'] = errorType;
+                span.setAttribute('error.type', errorType);
+                if (error instanceof Error) span.recordException(error);
+                span.setStatus({ code: otel.SpanStatusCode.ERROR, message: (error as any)?.message });
+                errors.add(1, metricAttributes);
+            }
+            duration.record(Date.now() - startedAt, metricAttributes);
+            span.end();
+        },
+    };
+}
+
+function errorTypeOf(error: unknown): string {
+    if (error instanceof AerostackError) return error.code;
+    if (typeof error === 'number') return String(error);
+    return (error as any)?.name ?? 'Error';
+}
+
+function parseBody(body: unknown): any {
+    if (typeof body !== 'string') return undefined;
+    try {
+        return JSON.parse(body);
+    } catch {
+        return undefined;
+    }
+}
+
+/** Span attributes derived from the request body of `operation`. */
+function requestAttributes(operation: string, body: any): Attributes {
+    const attributes: Attributes = {};
+    if (!body || typeof body !== 'object') return attributes;
+    if (operation === 'db.query' && typeof body.sql === 'string') {
+        attributes['db.system'] = 'aerostack';
+        attributes['db.statement'] = body.sql;
+    } else if (operation === 'db.batch' && Array.isArray(body.queries)) {
+        attributes['db.system'] = 'aerostack';
+        attributes['db.statement'] = body.queries.map((q: any) => q?.sql).filter(Boolean).join(';\n');
+    } else if (operation.startsWith('cache.')) {
+        if (typeof body.key === 'string') attributes['aerostack.cache.key'] = body.key;
+        if (Array.isArray(body.keys)) attributes['aerostack.cache.keys'] = body.keys.filter((k: unknown) => typeof k === 'string');
+    } else if (operation === 'queue.enqueue' && typeof body.type === 'string') {
+        attributes['aerostack.queue.job_type'] = body.type;
+    } else if (operation.startsWith('storage.') && typeof body.key === 'string') {
+        attributes['aerostack.storage.key'] = body.key;
+    }
+    return attributes;
+}
+
+/** `gen_ai.usage.*` attributes from an OpenAI-style `usage` object. */
+export function tokenUsageAttributes(usage: any): Attributes {
+    const attributes: Attributes = {};
+    if (!usage || typeof usage !== 'object') return attributes;
+    if (typeof usage.prompt_tokens === 'number') attributes['gen_ai.usage.input_tokens'] = usage.prompt_tokens;
+    if (typeof usage.completion_tokens === 'number') attributes['gen_ai.usage.output_tokens'] = usage.completion_tokens;
+    if (typeof usage.total_tokens === 'number') attributes['gen_ai.usage.total_tokens'] = usage.total_tokens;
+    return attributes;
+}
+
+const CHAT_OPERATIONS = new Set(['ai.chat', 'gateway.chat.completions']);
+
+interface ActiveSpan {
+    span: Span;
+    operation: string;
+    startedAt: number;
+}
+
+/**
+ * Middleware that wraps each generated API call in a span named after the
+ * operation and injects W3C trace context headers. Must run before
+ * `errorMiddleware`, which throws on failed responses.
+ */
+export function telemetryMiddleware(telemetry: Telemetry): Middleware {
+    const active = new WeakMap<RequestInit, ActiveSpan>();
+    return {
+        async pre({ url, init }) {
+            await telemetry.ready;
+            const operation = operationFromUrl(url).name;
+            const target = new URL(url);
+            const span = telemetry.startSpan(operation, {
+                'aerostack.operation': operation,
+                'http.request.method': init.method ?? 'GET',
+                'url.full': `${target.origin}${target.pathname}`,
+                'server.address': target.hostname,
+                ...requestAttributes(operation, parseBody(init.body)),
+            });
+            // Mutate in place: other middleware key their state by this init.
+            const headers = { ...(init.headers as Record<string, string> | undefined) };
+            telemetry.inject(span, headers);
+            init.headers = headers;
+            active.set(init, { span, operation, startedAt: Date.now() });
+        },
+        async post({ init, response }) {
+            const entry = active.get(init);
+            if (!entry) return;
+            active.delete(init);
+            entry.span.setAttribute('http.response.status_code', response.status);
+            if (response.ok && CHAT_OPERATIONS.has(entry.operation)) {
+                const body = await response.json().catch(() => undefined);
+                entry.span.setAttributes(tokenUsageAttributes(body?.usage));
+            }
+            telemetry.end(entry.span, entry.operation, entry.startedAt, response.ok ? undefined : response.status);
+        },
+        async onError({ init, error }) {
+            const entry = active.get(init);
+            if (!entry) return;
+            active.delete(init);
+            telemetry.end(entry.span, entry.operation, entry.startedAt, error);
+        },
+    };
+}
+
+/** Run `call` inside a span named `operation`, so spans it starts become children. */
+export async function traceCall<T>(
+    telemetry: Telemetry,
+    operation: string,
+    call: () => Promise<T>,
+    attributes: Attributes = {},
+    kind?: SpanKindName,
+): Promise<T> {
+    await telemetry.ready;
+    const span = telemetry.startSpan(operation, { 'aerostack.operation': operation, ...attributes }, kind);
+    const startedAt = Date.now();
+    try {
+        const result = await telemetry.withSpan(span, call);
+        telemetry.end(span, operation, startedAt);
+        return result;
+    } catch (e) {
+        telemetry.end(span, operation, startedAt, e);
+        throw e;
+    }
+}
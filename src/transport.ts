@@ -0,0 +1,124 @@
+/**
+ * Per-call request options and the hooks that carry them through the
+ * generated `BaseAPI` into the SDK's fetch pipeline.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { FetchAPI } from './_generated/runtime.js';
+import { TimeoutError } from './errors.js';
+import { operationFromUrl } from './operations.js';
+import { urlOf } from './utils.js';
+import type { RetryPolicy } from './retry.js';
+
+/** Options accepted as the last argument of every facade method. */
+export interface RequestOptions {
+    /** Abort the call. Rejects with the signal's `AbortError`. */
+    signal?: AbortSignal;
+    /**
+     * Fail the call with a `TimeoutError` if no response arrives within this
+     * many ms, retries included. Overrides `SDKOptions.timeoutMs`; `0` disables it.
+     */
+    timeoutMs?: number;
+    /**
+     * Override the client retry policy for this call.
+     * `true` retries even non-idempotent operations, `false` disables retries.
+     */
+    retry?: boolean | Partial<RetryPolicy>;
+    /**
+     * Queue position when client-side rate limits (`SDKOptions.rateLimit`) apply.
+     * Higher runs first; equal priorities run in call order. Defaults to `0`.
+     */
+    priority?: number;
+    /**
+     * `Idempotency-Key` header for this call, e.g. to dedupe your own retries
+     * of a billing log. Defaults to the call's `xRequestID` where the API takes
+     * one; mutating operations get a generated key otherwise. Either way it is
+     * the same on every automatic retry.
+     */
+    idempotencyKey?: string;
+}
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+const REQUEST_ID_HEADER = 'X-Request-ID';
+// Operations whose generated API takes an `xRequestID`; it carries the idempotency key too.
+const REQUEST_ID_OPERATIONS = new Set(['db.query', 'db.batch']);
+
+// The generated runtime spreads initOverrides into the final RequestInit,
+// so a symbol-keyed field survives all the way down to `fetchApi`.
+const REQUEST_OPTIONS = Symbol.for('aerostack.requestOptions');
+
+/**
+ * Build `initOverrides` for a generated API method from SDK request options.
+ *
+ * @example
+ * await sdk.queue.queueEnqueue({ queueEnqueueRequest }, requestInit({ retry: true }));
+ */
+export function requestInit(options: RequestOptions = {}): RequestInit {
+    const init = { [REQUEST_OPTIONS]: options } as RequestInit;
+    if (options.signal) init.signal = options.signal;
+    return init;
+}
+
+/** @internal — Read back the options attached by `requestInit`. */
+export function getRequestOptions(init?: RequestInit): RequestOptions {
+    return ((init as any)?.[REQUEST_OPTIONS] as RequestOptions | undefined) ?? {};
+}
+
+/**
+ * Wrap a fetch implementation with a per-call deadline. The timer covers
+ * every attempt made by the inner pipeline and stops once a response arrives.
+ */
+export function withTimeout(fetchApi: FetchAPI, defaultTimeoutMs?: number): FetchAPI {
+    return async (input, init) => {
+        const timeoutMs = getRequestOptions(init).timeoutMs ?? defaultTimeoutMs;
+        if (!timeoutMs || timeoutMs <= 0) return fetchApi(input, init);
+
+        const controller = new AbortController();
+        const timeoutError = new TimeoutError(timeoutMs);
+        const parent = init?.signal;
+        const onAbort = () => controller.abort(parent!.reason);
+        if (parent?.aborted) onAbort();
+        else parent?.addEventListener('abort', onAbort, { once: true });
+        const timer = setTimeout(() => controller.abort(timeoutError), timeoutMs);
+
+        try {
+            return await fetchApi(input, { ...init, signal: controller.signal });
+        } catch (e) {
+            if (controller.signal.reason === timeoutError) throw timeoutError;
+            throw e;
+        } finally {
+            clearTimeout(timer);
+            parent?.removeEventListener('abort', onAbort);
+        }
+    };
+}
+
+/**
+ * @internal — The key a call already has: an `Idempotency-Key` header, then
+ * `RequestOptions.idempotencyKey`, then the `xRequestID` header.
+ */
+export function idempotencyKeyOf(init?: RequestInit): string | undefined {
+    const headers = init?.headers as Record<string, string> | undefined;
+    return headers?.[IDEMPOTENCY_KEY_HEADER] ?? getRequestOptions(init).idempotencyKey ?? headers?.[REQUEST_ID_HEADER];
+}
+
+/** @internal — `init` sending `key` as `Idempotency-Key`, and as `X-Request-ID` for operations that have one. */
+export function withIdempotencyHeaders(url: string, init: RequestInit | undefined, key: string): RequestInit & { headers: Record<string, string> } {
+    const headers: Record<string, string> = { ...(init?.headers as Record<string, string> | undefined), [IDEMPOTENCY_KEY_HEADER]: key };
+    if (REQUEST_ID_OPERATIONS.has(operationFromUrl(url).name)) headers[REQUEST_ID_HEADER] ??= key;
+    return { ...init, headers };
+}
+
+/**
+ * Give each logical call of a mutating (non-idempotent) operation an
+ * `Idempotency-Key`, or the key the caller chose (see `idempotencyKeyOf`).
+ * Wraps the retry layer so every attempt sends the same key.
+ */
+export function withIdempotencyKey(fetchApi: FetchAPI): FetchAPI {
+    return (input, init) => {
+        const url = urlOf(input);
+        const key = idempotencyKeyOf(init) ?? (operationFromUrl(url).idempotent ? undefined : randomUUID());
+        if (key === undefined) return fetchApi(input, init);
+        return fetchApi(input, withIdempotencyHeaders(url, init, key));
+    };
+}
@@ -0,0 +1,54 @@
+/**
+ * Small helpers shared by the SDK's hand-written modules. Not part of the public API.
+ */
+
+/** Resolve after `ms`, or reject with the signal's reason if it aborts first. */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Wait for `promise` to settle, at most `ms`. Resolves `true` if it settled
+ * in time (fulfilled or rejected), `false` on timeout. Never rejects.
+ */
+export async function settleWithin(promise: Promise<unknown>, ms: number): Promise<boolean> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<false>(resolve => { timer = setTimeout(() => resolve(false), Math.max(0, ms)); });
+    try {
+        return await Promise.race([promise.then(() => true, () => true), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/** True for errors produced by an aborted fetch or an aborted `AbortSignal`. */
+export function isAbortError(err: unknown): boolean {
+    return (err as any)?.name === 'AbortError';
+}
+
+/** True for failures before a response arrived: `fetch failed`, `ECONNRESET`, ... */
+export function isConnectionError(err: unknown): boolean {
+    const e = err as any;
+    return e?.name === 'FetchError' || e?.name === 'TypeError' || (typeof e?.code === 'string' && /^E[A-Z]+$/.test(e.code));
+}
+
+/** The URL string of a fetch input. */
+export function urlOf(input: RequestInfo | URL): string {
+    if (typeof input === 'string') return input;
+    if (input instanceof URL) return input.href;
+    return input.url;
+}
@@ -0,0 +1,74 @@
+/**
+ * Runtime validation of API responses against the zod schemas in `schemas.ts`.
+ */
+
+import type { Middleware } from './_generated/runtime.js';
+import { ResponseValidationError } from './errors.js';
+import { operationFromUrl } from './operations.js';
+import { RESPONSE_SCHEMAS } from './schemas.js';
+
+/**
+ * - `off`: trust the server (default)
+ * - `warn`: report mismatches and carry on
+ * - `strict`: reject the call with `ResponseValidationError`
+ */
+export type ValidateResponsesMode = 'off' | 'warn' | 'strict';
+
+export interface ResponseIssue {
+    path: string;
+    message: string;
+}
+
+/**
+ * Check a decoded response body against the schema for `operation`.
+ * Returns the issues found, or an empty array when it matches (or no schema exists).
+ */
+export function validateResponseBody(operation: string, body: unknown): ResponseIssue[] {
+    const schema = RESPONSE_SCHEMAS[operation];
+    if (!schema) return [];
+    const result = schema.safeParse(body);
+    if (result.success) return [];
+    return result.error.issues.map(issue => ({
+        path: issue.path.map(String).join('.') || '(root)',
+        message: issue.message,
+    }));
+}
+
+function formatIssues(operation: string, issues: ResponseIssue[]): string {
+    const list = issues.slice(0, 5).map(i => `${i.path}: ${i.message}`).join('; ');
+    const more = issues.length > 5 ? ` (+${issues.length - 5} more)` : '';
+    return `Invalid ${operation} response: ${list}${more}`;
+}
+
+/**
+ * Middleware that validates every successful JSON response.
+ * `warn` receives the message and issues in `warn` mode.
+ */
+export function validationMiddleware(
+    mode: ValidateResponsesMode,
+    warn: (message: string, issues: ResponseIssue[]) => void = (message) => console.warn(`Aerostack: ${message}`),
+): Middleware {
+    return {
+        async post({ url, response }) {
+            if (mode === 'off' || response.status < 200 || response.status >= 300) return;
+            if (!(response.headers.get('Content-Type') ?? '').includes('json')) return;
+
+            const operation = operationFromUrl(url).name;
+            const body = await response.json().catch(() => undefined);
+            const issues = validateResponseBody(operation, body);
+            if (issues.length === 0) return;
+
+            const message = formatIssues(operation, issues);
+            if (mode === 'strict') {
+                throw new ResponseValidationError(message, {
+                    code: 'RESPONSE_VALIDATION_FAILED',
+                    status: response.status,
+                    requestId: response.headers.get('X-Request-ID') ?? undefined,
+                    details: { operation, issues },
+                    response,
+                });
+            }
+            warn(message, issues);
+        },
+    };
+}